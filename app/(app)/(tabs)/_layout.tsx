@@ -3,9 +3,11 @@ import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Image, StyleSheet, View } from 'react-native';
 import { supabase } from '../../../lib/supabase';
+import { useUnreadCount } from '../../../lib/chatRealtime';
 
 export default function TabLayout() {
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const unreadCount = useUnreadCount();
 
   useEffect(() => {
     fetchProfile();
@@ -86,6 +88,7 @@ export default function TabLayout() {
           tabBarIcon: ({ size, color }) => (
             <Ionicons name="chatbubbles" size={size} color={color} />
           ),
+          tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
         }}
       />
       <Tabs.Screen
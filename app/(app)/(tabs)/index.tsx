@@ -1,4 +1,3 @@
-import { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -10,105 +9,16 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { router } from 'expo-router';
-import { supabase } from '../../../lib/supabase';
+import { useVideoList } from '../../../lib/videos';
 import { Ionicons } from '@expo/vector-icons';
 
-interface Video {
-  id: string;
-  title: string;
-  description: string;
-  video_url: string;
-  user_id: string;
-  created_at: string;
-}
-
-interface VideoUser {
-  username: string;
-  avatar_url: string;
-}
-
 const { width } = Dimensions.get('window');
 const COLUMN_COUNT = 3;
 const SPACING = 1;
 const ITEM_WIDTH = (width - (COLUMN_COUNT + 1) * SPACING) / COLUMN_COUNT;
 
 export default function VideoGrid() {
-  const [videos, setVideos] = useState<(Video & { user: VideoUser })[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [stats, setStats] = useState<{ [key: string]: number }>({});
-
-  useEffect(() => {
-    loadVideos();
-  }, []);
-
-  async function ensureProfile(userId: string) {
-    try {
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('username, avatar_url')
-        .eq('id', userId)
-        .single();
-
-      if (profileError) {
-        if (profileError.code === 'PGRST116') {
-          const { data: newProfile, error: insertError } = await supabase
-            .from('profiles')
-            .insert([{ 
-              id: userId,
-              username: `user_${userId.slice(0, 8)}`,
-              avatar_url: null
-            }])
-            .select('username, avatar_url')
-            .single();
-
-          if (insertError) throw insertError;
-          return newProfile;
-        }
-        throw profileError;
-      }
-
-      return profile;
-    } catch (error) {
-      console.warn('Error ensuring profile:', error);
-      return { username: `user_${userId.slice(0, 8)}`, avatar_url: null };
-    }
-  }
-
-  async function loadVideos() {
-    try {
-      setError(null);
-      
-      const { data: videosData, error: videosError } = await supabase
-        .from('videos')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (videosError) throw videosError;
-
-      const videosWithUsers = await Promise.all(
-        videosData.map(async (video) => {
-          const userData = await ensureProfile(video.user_id);
-          // Generate random stats for demo
-          setStats(prev => ({
-            ...prev,
-            [video.id]: Math.floor(Math.random() * 10000)
-          }));
-          return {
-            ...video,
-            user: userData
-          };
-        })
-      );
-
-      setVideos(videosWithUsers);
-    } catch (error) {
-      console.error('Error loading videos:', error);
-      setError('Failed to load videos');
-    } finally {
-      setLoading(false);
-    }
-  }
+  const { videos, loading, refreshing, loadingMore, error, loadMore, refresh } = useVideoList({ type: 'all' });
 
   function formatNumber(num: number): string {
     if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
@@ -117,7 +27,7 @@ export default function VideoGrid() {
   }
 
   function navigateToVideo(videoId: string) {
-    router.push('/videoscroll');
+    router.push(`/video/${videoId}`);
   }
 
   if (loading) {
@@ -128,11 +38,11 @@ export default function VideoGrid() {
     );
   }
 
-  if (error) {
+  if (error && videos.length === 0) {
     return (
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>{error}</Text>
-        <TouchableOpacity onPress={loadVideos} style={styles.retryButton}>
+        <TouchableOpacity onPress={refresh} style={styles.retryButton}>
           <Text style={styles.retryText}>Retry</Text>
         </TouchableOpacity>
       </View>
@@ -150,6 +60,15 @@ export default function VideoGrid() {
         keyExtractor={item => item.id}
         numColumns={COLUMN_COUNT}
         contentContainerStyle={styles.list}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        onRefresh={refresh}
+        refreshing={refreshing}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.footerLoader} size="small" color="#4F46E5" />
+          ) : null
+        }
         renderItem={({ item }) => (
           <TouchableOpacity 
             style={styles.videoItem}
@@ -157,14 +76,14 @@ export default function VideoGrid() {
           >
             <View style={styles.thumbnail}>
               <Image
-                source={{ uri: `https://picsum.photos/seed/${item.id}/300/400` }}
+                source={{ uri: item.thumbnail_url || `https://picsum.photos/seed/${item.id}/300/400` }}
                 style={styles.thumbnailImage}
               />
               <View style={styles.overlay}>
                 <View style={styles.views}>
                   <Ionicons name="eye-outline" size={16} color="white" />
                   <Text style={styles.viewsText}>
-                    {formatNumber(stats[item.id] || 0)}
+                    {formatNumber(item.view_count)}
                   </Text>
                 </View>
               </View>
@@ -233,6 +152,9 @@ const styles = StyleSheet.create({
   list: {
     padding: SPACING,
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   videoItem: {
     width: ITEM_WIDTH,
     margin: SPACING,
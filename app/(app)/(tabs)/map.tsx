@@ -4,7 +4,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Location from 'expo-location';
 import { Icons } from '../../../components/Icons';
 import { useTheme } from '../../../lib/ThemeContext';
-import { supabase } from '../../../lib/supabase';
+import { useVideoList, getVideoListParams } from '../../../lib/videos';
 import { router } from 'expo-router';
 
 // Conditionally import MapView to avoid errors on web
@@ -15,18 +15,6 @@ const MapFallback = () => (
   </View>
 );
 
-interface VideoLocation {
-  id: string;
-  title: string;
-  description: string;
-  address: string;
-  latitude: number;
-  longitude: number;
-  user_id: string;
-  username: string;
-  avatar_url: string;
-}
-
 export default function MapScreen() {
   const { colors, isDark } = useTheme();
   const insets = useSafeAreaInsets();
@@ -34,8 +22,16 @@ export default function MapScreen() {
   const [errorMsg, setErrorMsg] = useState(null);
   const [loading, setLoading] = useState(true);
   const [mapType, setMapType] = useState('standard');
-  const [videoLocations, setVideoLocations] = useState<VideoLocation[]>([]);
-  const [loadingVideos, setLoadingVideos] = useState(false);
+  const {
+    videos: videoLocations,
+    loading: loadingInitialVideos,
+    refreshing,
+    loadingMore,
+    hasMore,
+    loadMore,
+    refresh: loadVideoLocations,
+  } = useVideoList({ type: 'located' });
+  const loadingVideos = loadingInitialVideos || refreshing || loadingMore;
 
   useEffect(() => {
     (async () => {
@@ -57,54 +53,17 @@ export default function MapScreen() {
         setLoading(false);
       }
     })();
-
-    loadVideoLocations();
   }, []);
 
-  async function loadVideoLocations() {
-    try {
-      setLoadingVideos(true);
-      
-      // Fetch videos with location data
-      const { data: videos, error } = await supabase
-        .from('videos')
-        .select('id, title, description, address, latitude, longitude, user_id')
-        .not('latitude', 'is', null)
-        .not('longitude', 'is', null);
-      
-      if (error) throw error;
-
-      // Get user profiles for each video
-      const videosWithProfiles = await Promise.all(
-        videos.map(async (video) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('username, avatar_url')
-            .eq('id', video.user_id)
-            .single();
-          
-          return {
-            ...video,
-            username: profile?.username || 'Unknown user',
-            avatar_url: profile?.avatar_url || null,
-          };
-        })
-      );
-
-      setVideoLocations(videosWithProfiles);
-    } catch (error) {
-      console.error('Error loading video locations:', error);
-    } finally {
-      setLoadingVideos(false);
-    }
-  }
-
   const toggleMapType = () => {
     setMapType(prev => prev === 'standard' ? 'satellite' : 'standard');
   };
 
   function navigateToVideo(videoId: string) {
-    router.push('/videoscroll');
+    router.push({
+      pathname: '/videoscroll',
+      params: { ...getVideoListParams({ type: 'located' }), videoId },
+    });
   }
 
   const initialRegion = location ? {
@@ -167,7 +126,7 @@ export default function MapScreen() {
                   {video.address}
                 </Text>
                 <Text style={[styles.videoLocationUser, { color: colors.primary }]}>
-                  @{video.username}
+                  @{video.user.username}
                 </Text>
               </View>
             </TouchableOpacity>
@@ -262,9 +221,9 @@ export default function MapScreen() {
                     <Text style={styles.calloutTitle}>{video.title}</Text>
                     <Text style={styles.calloutAddress}>{video.address}</Text>
                     <View style={styles.calloutUser}>
-                      {video.avatar_url ? (
+                      {video.user.avatar_url ? (
                         <Image 
-                          source={{ uri: video.avatar_url }} 
+                          source={{ uri: video.user.avatar_url }} 
                           style={styles.calloutAvatar} 
                         />
                       ) : (
@@ -272,7 +231,7 @@ export default function MapScreen() {
                           <Icons.user size={12} color="#64748B" />
                         </View>
                       )}
-                      <Text style={styles.calloutUsername}>@{video.username}</Text>
+                      <Text style={styles.calloutUsername}>@{video.user.username}</Text>
                     </View>
                     <Text style={styles.calloutAction}>Tap to watch video</Text>
                   </View>
@@ -318,11 +277,16 @@ export default function MapScreen() {
         </TouchableOpacity>
       </View>
 
-      <View style={[styles.videoCounter, { bottom: insets.bottom + 80 }]}>
+      <TouchableOpacity
+        style={[styles.videoCounter, { bottom: insets.bottom + 80 }]}
+        onPress={loadMore}
+        disabled={!hasMore || loadingVideos}
+      >
         <Text style={styles.videoCounterText}>
           {videoLocations.length} {videoLocations.length === 1 ? 'video' : 'videos'} on map
+          {hasMore ? ' · Load more' : ''}
         </Text>
-      </View>
+      </TouchableOpacity>
     </View>
   );
 }
@@ -12,86 +12,161 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
 import { supabase } from '../../../lib/supabase';
 import { Icons } from '../../../components/Icons';
 import { useTheme } from '../../../lib/ThemeContext';
-
-interface ChatMessage {
-  id: string;
-  sender_id: string;
-  receiver_id: string;
-  content: string;
-  created_at: string;
-  profiles: {
-    username: string;
-    avatar_url: string;
-  };
-}
-
-interface ChatUser {
-  id: string;
-  username: string;
-  avatar_url: string;
-  last_message?: string;
-  last_message_time?: string;
-  unread_count?: number;
-}
+import { GroupChatSheet } from '../../../components/GroupChatSheet';
+import { VideoPickerSheet } from '../../../components/VideoPickerSheet';
+import { AttachmentViewer } from '../../../components/AttachmentViewer';
+import { VideoSearchResult } from '../../../lib/search';
+import { MAX_VIDEO_DURATION } from '../../../lib/videoProcessing';
+import {
+  LocalAttachment,
+  getAttachmentLabel,
+  validateAttachment,
+  uploadMessageAttachment,
+  removeMessageAttachment,
+  signAttachmentUrls,
+} from '../../../lib/messageAttachments';
+import {
+  useOnlineUsers,
+  useConversationChannel,
+  getTypingText,
+  getMessageReceipt,
+} from '../../../lib/chatRealtime';
+import { useViewableIds } from '../../../lib/realtimeCounts';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationMessageWithSender,
+  CONVERSATIONS_PAGE_SIZE,
+  MESSAGES_PAGE_SIZE,
+  fetchConversations,
+  fetchConversation,
+  getDirectConversation,
+  fetchConversationMessages,
+  fetchConversationMessage,
+  sendConversationMessage,
+  MessageAttachment,
+  markConversationRead,
+  upsertConversation,
+  getConversationTitle,
+  getConversationAvatar,
+} from '../../../lib/conversations';
 
 export default function Messages() {
   const params = useLocalSearchParams();
   const { colors, isDark } = useTheme();
   const [searchQuery, setSearchQuery] = useState('');
-  const [users, setUsers] = useState<ChatUser[]>([]);
-  const [selectedUser, setSelectedUser] = useState<ChatUser | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [currentUsername, setCurrentUsername] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ConversationMessageWithSender[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [groupSheetVisible, setGroupSheetVisible] = useState(false);
+  // Signed links to attachment files, keyed by path
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  // Sent together with the next message
+  const [pendingFile, setPendingFile] = useState<LocalAttachment | null>(null);
+  const [pendingVideo, setPendingVideo] = useState<VideoSearchResult | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [videoPickerVisible, setVideoPickerVisible] = useState(false);
+  const [viewerAttachment, setViewerAttachment] = useState<{ type: 'image' | 'video'; uri: string } | null>(null);
   const flatListRef = useRef<FlatList>(null);
+  // Set while older messages are added above, so the list isn't scrolled to
+  // the newest message
+  const keepScrollPosition = useRef(false);
+  const isFocused = useIsFocused();
+  const onlineUserIds = useOnlineUsers();
+  const visibleMessages = useViewableIds();
+  // Newest message a read receipt was requested for, so scrolling doesn't
+  // repeat the request before the receipt comes back
+  const readRequestedUntil = useRef<string | null>(null);
+  const { typingUsers, readStates, notifyTyping } = useConversationChannel(
+    selectedConversation?.id ?? null,
+    currentUserId ? { userId: currentUserId, username: currentUsername } : null,
+    handleNewMessage
+  );
 
   useEffect(() => {
-    loadUsers();
+    getCurrentUser();
+    loadConversations();
+  }, []);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    // New messages and read changes update the participant rows of the user
     const subscription = supabase
-      .channel('chat')
+      .channel('conversations')
       .on('postgres_changes', {
-        event: 'INSERT',
+        event: '*',
         schema: 'public',
-        table: 'messages',
-      }, handleNewMessage)
+        table: 'conversation_participants',
+        filter: `user_id=eq.${currentUserId}`,
+      }, handleConversationChange)
       .subscribe();
 
     return () => {
       subscription.unsubscribe();
     };
-  }, []);
+  }, [currentUserId]);
 
   useEffect(() => {
-    // Check if we have userId and username from params (coming from profile page)
-    if (params.userId && params.username) {
-      const userFromParams: ChatUser = {
-        id: params.userId as string,
-        username: params.username as string,
-        avatar_url: null,
-      };
-      
-      // Check if this user is already in our users list
-      const existingUser = users.find(u => u.id === userFromParams.id);
-      if (existingUser) {
-        setSelectedUser(existingUser);
-      } else {
-        // Add this user to our list and select them
-        setUsers(prev => [...prev, userFromParams]);
-        setSelectedUser(userFromParams);
-      }
+    // Coming from a profile page
+    if (params.userId) {
+      openDirectConversation(params.userId as string);
     }
-  }, [params, users]);
+  }, [params.userId]);
 
   useEffect(() => {
-    if (selectedUser) {
-      loadMessages(selectedUser.id);
+    readRequestedUntil.current = null;
+    setAttachmentUrls({});
+    setPendingFile(null);
+    setPendingVideo(null);
+    if (selectedConversation) {
+      loadMessages(selectedConversation.id);
     }
-  }, [selectedUser]);
+  }, [selectedConversation?.id]);
+
+  // Received messages count as read once they have been on screen
+  useEffect(() => {
+    if (!selectedConversation || !currentUserId || !isFocused) return;
+
+    const newestSeen = messages
+      .filter(message =>
+        message.sender_id !== currentUserId && visibleMessages.ids.includes(message.id)
+      )
+      .pop();
+    if (!newestSeen) return;
+
+    const lastReadAt = readRequestedUntil.current || readStates[currentUserId];
+    if (lastReadAt && new Date(lastReadAt).getTime() >= new Date(newestSeen.created_at).getTime()) {
+      return;
+    }
+
+    readRequestedUntil.current = newestSeen.created_at;
+    markRead(selectedConversation.id, newestSeen.created_at);
+  }, [visibleMessages.ids, messages, readStates, isFocused]);
+
+  async function getCurrentUser() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+      const profile = await ensureProfile(user.id);
+      setCurrentUsername(profile.username);
+    }
+  }
 
   async function ensureProfile(userId: string | null) {
     if (!userId) {
@@ -130,135 +205,265 @@ export default function Messages() {
     }
   }
 
-  async function loadUsers() {
+  async function loadConversations() {
     try {
       setError(null);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: messages, error: messagesError } = await supabase
-        .from('messages')
-        .select('*')
-        .or(`sender_id.eq.${user.id},receiver_id.eq.${user.id}`)
-        .order('created_at', { ascending: false });
-
-      if (messagesError) throw messagesError;
-
-      const userMap = new Map<string, ChatUser>();
-
-      for (const message of messages || []) {
-        const isReceived = message.receiver_id === user.id;
-        const otherUserId = isReceived ? message.sender_id : message.receiver_id;
-
-        if (!userMap.has(otherUserId)) {
-          const profile = await ensureProfile(otherUserId);
-          
-          userMap.set(otherUserId, {
-            id: otherUserId,
-            username: profile.username,
-            avatar_url: profile.avatar_url,
-            last_message: message.content,
-            last_message_time: message.created_at,
-            unread_count: isReceived && !message.read ? 1 : 0,
-          });
-        } else if (new Date(message.created_at) > new Date(userMap.get(otherUserId)!.last_message_time!)) {
-          const existingUser = userMap.get(otherUserId)!;
-          userMap.set(otherUserId, {
-            ...existingUser,
-            last_message: message.content,
-            last_message_time: message.created_at,
-            unread_count: isReceived && !message.read 
-              ? (existingUser.unread_count || 0) + 1 
-              : existingUser.unread_count,
-          });
-        }
-      }
-
-      setUsers(Array.from(userMap.values()));
+      const page = await fetchConversations();
+      setConversations(page);
+      setHasMore(page.length === CONVERSATIONS_PAGE_SIZE);
     } catch (error) {
-      console.error('Error loading users:', error);
+      console.error('Error loading conversations:', error);
       setError('Failed to load chats');
     } finally {
       setLoading(false);
     }
   }
 
-  async function loadMessages(userId: string) {
+  async function loadMoreConversations() {
+    if (loading || loadingMore || !hasMore || conversations.length === 0) return;
+
     try {
-      setError(null);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: messages, error: messagesError } = await supabase
-        .from('messages')
-        .select('*')
-        .or(`and(sender_id.eq.${user.id},receiver_id.eq.${userId}),and(sender_id.eq.${userId},receiver_id.eq.${user.id})`)
-        .order('created_at', { ascending: true });
-
-      if (messagesError) throw messagesError;
-
-      const messagesWithProfiles = await Promise.all(
-        (messages || []).map(async (message) => {
-          const senderProfile = await ensureProfile(message.sender_id);
-          return {
-            ...message,
-            profiles: senderProfile
-          };
-        })
+      setLoadingMore(true);
+      const page = await fetchConversations(conversations[conversations.length - 1]);
+      setConversations(prev => [
+        ...prev,
+        ...page.filter(conversation => !prev.some(item => item.id === conversation.id)),
+      ]);
+      setHasMore(page.length === CONVERSATIONS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more conversations:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function refreshConversation(conversationId: string) {
+    try {
+      const conversation = await fetchConversation(conversationId);
+      setConversations(prev =>
+        // Direct conversations without messages stay out of the list
+        conversation && (conversation.last_message_id || conversation.is_group)
+          ? upsertConversation(prev, conversation)
+          : prev.filter(item => item.id !== conversationId)
       );
+      if (conversation) {
+        setSelectedConversation(prev => (prev?.id === conversation.id ? conversation : prev));
+      }
+    } catch (error) {
+      console.error('Error refreshing conversation:', error);
+    }
+  }
+
+  function handleConversationChange(payload: any) {
+    if (payload.eventType === 'DELETE') {
+      const conversationId = payload.old?.conversation_id;
+      setConversations(prev => prev.filter(item => item.id !== conversationId));
+      return;
+    }
+
+    if (payload.new?.conversation_id) {
+      refreshConversation(payload.new.conversation_id);
+    }
+  }
 
-      setMessages(messagesWithProfiles);
-      
-      await supabase
-        .from('messages')
-        .update({ read: true })
-        .eq('receiver_id', user.id)
-        .eq('sender_id', userId);
+  async function openDirectConversation(userId: string) {
+    try {
+      setError(null);
+      const conversationId = await getDirectConversation(userId);
+      const conversation = await fetchConversation(conversationId);
+      if (!conversation) throw new Error('Conversation not found');
+      setSelectedConversation(conversation);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+      setError('Failed to open chat');
+    }
+  }
 
+  async function loadMessages(conversationId: string) {
+    try {
+      setError(null);
+      const conversationMessages = await fetchConversationMessages(conversationId);
+      setMessages(conversationMessages);
+      setHasMoreMessages(conversationMessages.length === MESSAGES_PAGE_SIZE);
+      loadAttachmentUrls(conversationMessages);
     } catch (error) {
       console.error('Error loading messages:', error);
       setError('Failed to load messages');
     }
   }
 
-  function handleNewMessage(payload: any) {
-    const newMessage = payload.new;
-    if (selectedUser && (
-      (newMessage.sender_id === selectedUser.id) || 
-      (newMessage.receiver_id === selectedUser.id)
-    )) {
-      setMessages(prev => [...prev, newMessage]);
-      flatListRef.current?.scrollToEnd();
+  async function loadOlderMessages() {
+    if (!selectedConversation || loadingOlderMessages || !hasMoreMessages || messages.length === 0) return;
+
+    try {
+      setLoadingOlderMessages(true);
+      const page = await fetchConversationMessages(selectedConversation.id, messages[0]);
+      keepScrollPosition.current = true;
+      setMessages(prev => [
+        ...page.filter(message => !prev.some(item => item.id === message.id)),
+        ...prev,
+      ]);
+      setHasMoreMessages(page.length === MESSAGES_PAGE_SIZE);
+      loadAttachmentUrls(page);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlderMessages(false);
     }
-    loadUsers();
+  }
+
+  async function loadAttachmentUrls(conversationMessages: ConversationMessage[]) {
+    const paths = conversationMessages.flatMap(message =>
+      [message.attachment_path, message.attachment_thumbnail_path].filter((path): path is string => !!path)
+    );
+    if (paths.length === 0) return;
+
+    try {
+      const urls = await signAttachmentUrls(paths);
+      setAttachmentUrls(prev => ({ ...prev, ...urls }));
+    } catch (error) {
+      console.warn('Error loading attachments:', error);
+    }
+  }
+
+  async function markRead(conversationId: string, readUntil: string) {
+    try {
+      await markConversationRead(conversationId, readUntil);
+    } catch (error) {
+      console.warn('Error marking conversation as read:', error);
+      readRequestedUntil.current = null;
+    }
+  }
+
+  async function handleNewMessage(payload: ConversationMessage) {
+    const conversation = selectedConversation;
+    if (!conversation || payload.conversation_id !== conversation.id) return;
+
+    const isReceived = payload.sender_id !== currentUserId;
+    // Direct conversations already know the other participant
+    let newMessage: ConversationMessageWithSender = {
+      ...payload,
+      profiles: isReceived && !conversation.is_group
+        ? { username: conversation.username, avatar_url: conversation.avatar_url }
+        : { username: null, avatar_url: null },
+    };
+
+    if (payload.attachment_type === 'shared_video' || (isReceived && conversation.is_group)) {
+      try {
+        newMessage = (await fetchConversationMessage(conversation.id, payload.id)) || newMessage;
+      } catch (error) {
+        console.warn('Error loading message:', error);
+      }
+    }
+    if (payload.attachment_path) {
+      loadAttachmentUrls([payload]);
+    }
+
+    setMessages(prev => {
+      if (prev.some(message => message.id === newMessage.id)) return prev;
+      return [...prev, newMessage];
+    });
+    flatListRef.current?.scrollToEnd();
   }
 
   async function sendMessage() {
-    if (!newMessage.trim() || !selectedUser) return;
+    if (!canSend || !selectedConversation) return;
 
+    let attachment: MessageAttachment | null = null;
     try {
       setSending(true);
+      setError(null);
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error: sendError } = await supabase
-        .from('messages')
-        .insert({
-          sender_id: user.id,
-          receiver_id: selectedUser.id,
-          content: newMessage.trim(),
-        });
+      if (pendingFile) {
+        attachment = await uploadMessageAttachment(selectedConversation.id, user.id, pendingFile);
+      } else if (pendingVideo) {
+        attachment = { type: 'shared_video', videoId: pendingVideo.id };
+      }
 
-      if (sendError) throw sendError;
+      await sendConversationMessage(selectedConversation, user.id, newMessage, attachment);
       setNewMessage('');
+      setPendingFile(null);
+      setPendingVideo(null);
+      notifyTyping(false);
     } catch (error) {
       console.error('Error sending message:', error);
       setError('Failed to send message');
+      if (attachment) {
+        removeMessageAttachment(attachment).catch(cleanupError =>
+          console.warn('Error removing attachment:', cleanupError)
+        );
+      }
     } finally {
       setSending(false);
     }
   }
 
+  async function pickAttachment() {
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permissionResult.granted) {
+        setError('Permission to access photos is required');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.All,
+        quality: 0.8,
+        videoMaxDuration: MAX_VIDEO_DURATION,
+      });
+
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      const file: LocalAttachment = {
+        type: asset.type === 'video' ? 'video' : 'image',
+        uri: asset.uri,
+        mimeType: asset.mimeType,
+        // The picker reports the duration in milliseconds
+        duration: asset.duration ? asset.duration / 1000 : 0,
+        size: asset.fileSize,
+      };
+
+      setValidating(true);
+      setError(null);
+      const validationError = await validateAttachment(file);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+
+      setPendingFile(file);
+      setPendingVideo(null);
+    } catch (error) {
+      console.error('Error picking attachment:', error);
+      setError('Failed to pick a photo or video');
+    } finally {
+      setValidating(false);
+    }
+  }
+
+  function handleSharedVideoSelect(video: VideoSearchResult) {
+    setVideoPickerVisible(false);
+    setPendingVideo(video);
+    setPendingFile(null);
+  }
+
+  function handleMessageChange(text: string) {
+    setNewMessage(text);
+    notifyTyping(text.length > 0);
+  }
+
+  function getHeaderSubtitle(conversation: Conversation) {
+    const typingText = getTypingText(typingUsers, conversation.is_group);
+    if (typingText) return typingText;
+    if (conversation.is_group) return `${conversation.member_count} members`;
+    return conversation.other_user_id && onlineUserIds.has(conversation.other_user_id)
+      ? 'Online'
+      : null;
+  }
+
   function formatTime(dateString: string): string {
     const date = new Date(dateString);
     const now = new Date();
@@ -278,6 +483,142 @@ export default function Messages() {
     router.push(`/profile/${userId}`);
   }
 
+  function openConversationDetails() {
+    if (selectedConversation?.is_group) {
+      setGroupSheetVisible(true);
+    } else if (selectedConversation?.other_user_id) {
+      navigateToProfile(selectedConversation.other_user_id);
+    }
+  }
+
+  function openNewGroup() {
+    setSelectedConversation(null);
+    setGroupSheetVisible(true);
+  }
+
+  async function handleGroupSaved(conversationId: string) {
+    setGroupSheetVisible(false);
+    await refreshConversation(conversationId);
+
+    if (selectedConversation?.id !== conversationId) {
+      try {
+        setSelectedConversation(await fetchConversation(conversationId));
+      } catch (error) {
+        console.error('Error opening group:', error);
+        setError('Failed to open chat');
+      }
+    }
+  }
+
+  function handleGroupLeft(conversationId: string) {
+    setGroupSheetVisible(false);
+    setSelectedConversation(null);
+    setConversations(prev => prev.filter(item => item.id !== conversationId));
+  }
+
+  function getLastMessagePreview(conversation: Conversation) {
+    const text = conversation.last_message_content
+      || (conversation.last_message_attachment_type
+        && getAttachmentLabel(conversation.last_message_attachment_type));
+    if (!text) return null;
+    if (!conversation.is_group) return text;
+
+    const sender = conversation.last_message_sender_id === currentUserId
+      ? 'You'
+      : conversation.last_message_sender_username || 'Someone';
+    return `${sender}: ${text}`;
+  }
+
+  function renderAttachment(message: ConversationMessageWithSender) {
+    if (message.attachment_type === 'shared_video') {
+      const video = message.shared_video;
+      return (
+        <TouchableOpacity
+          style={[styles.sharedVideo, { backgroundColor: colors.card }]}
+          onPress={() => video && router.push(`/video/${video.id}`)}
+          disabled={!video}
+        >
+          {video?.thumbnail_url ? (
+            <Image source={{ uri: video.thumbnail_url }} style={styles.sharedVideoThumbnail} />
+          ) : (
+            <View style={[styles.sharedVideoThumbnail, styles.attachmentPlaceholder, { backgroundColor: colors.primaryLight }]}>
+              <Icons.video size={24} color={colors.primary} />
+            </View>
+          )}
+          <View style={styles.sharedVideoInfo}>
+            <Text style={[styles.sharedVideoTitle, { color: colors.text }]} numberOfLines={2}>
+              {video ? video.title : 'Video unavailable'}
+            </Text>
+            {video && (
+              <Text style={[styles.sharedVideoAction, { color: colors.primary }]}>Watch video</Text>
+            )}
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
+    const type = message.attachment_type;
+    if (!type || !message.attachment_path) return null;
+
+    const url = attachmentUrls[message.attachment_path];
+    const previewUrl = type === 'image'
+      ? url
+      : message.attachment_thumbnail_path && attachmentUrls[message.attachment_thumbnail_path];
+
+    return (
+      <TouchableOpacity
+        style={styles.attachment}
+        onPress={() => url && setViewerAttachment({ type, uri: url })}
+        disabled={!url}
+      >
+        {previewUrl ? (
+          <Image source={{ uri: previewUrl }} style={styles.attachmentImage} />
+        ) : (
+          <View style={[styles.attachmentImage, styles.attachmentPlaceholder, { backgroundColor: colors.card }]}>
+            {type === 'image' && <Icons.image size={32} color={colors.subtext} />}
+          </View>
+        )}
+        {type === 'video' && (
+          <View style={styles.playOverlay}>
+            <Icons.play size={32} color="white" fill="white" />
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  function renderPendingAttachment() {
+    if (!pendingFile && !pendingVideo) return null;
+
+    return (
+      <View style={[styles.pendingAttachment, { backgroundColor: colors.card }]}>
+        {pendingFile?.type === 'image' ? (
+          <Image source={{ uri: pendingFile.uri }} style={styles.pendingThumbnail} />
+        ) : pendingVideo?.thumbnail_url ? (
+          <Image source={{ uri: pendingVideo.thumbnail_url }} style={styles.pendingThumbnail} />
+        ) : (
+          <View style={[styles.pendingThumbnail, styles.attachmentPlaceholder, { backgroundColor: colors.primaryLight }]}>
+            <Icons.video size={20} color={colors.primary} />
+          </View>
+        )}
+        <Text style={[styles.pendingTitle, { color: colors.text }]} numberOfLines={1}>
+          {pendingVideo ? pendingVideo.title : getAttachmentLabel(pendingFile!.type)}
+        </Text>
+        <TouchableOpacity
+          onPress={() => {
+            setPendingFile(null);
+            setPendingVideo(null);
+          }}
+          disabled={sending}
+        >
+          <Icons.close size={20} color={colors.subtext} />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const canSend = !!(newMessage.trim() || pendingFile || pendingVideo) && !sending;
+
   if (loading) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
@@ -289,50 +630,73 @@ export default function Messages() {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={[styles.header, { backgroundColor: colors.card }]}>
-        {selectedUser ? (
+        {selectedConversation ? (
           <>
             <TouchableOpacity 
               style={styles.backButton}
-              onPress={() => setSelectedUser(null)}
+              onPress={() => setSelectedConversation(null)}
             >
               <Icons.back size={24} color={colors.text} />
             </TouchableOpacity>
             <TouchableOpacity 
               style={styles.headerProfile}
-              onPress={() => navigateToProfile(selectedUser.id)}
+              onPress={openConversationDetails}
             >
-              {selectedUser.avatar_url ? (
+              {getConversationAvatar(selectedConversation) ? (
                 <Image 
-                  source={{ uri: selectedUser.avatar_url }} 
+                  source={{ uri: getConversationAvatar(selectedConversation)! }} 
                   style={styles.headerAvatar} 
                 />
               ) : (
                 <View style={[styles.headerAvatarPlaceholder, { backgroundColor: colors.primaryLight }]}>
-                  <Icons.user size={20} color={colors.primary} />
+                  {selectedConversation.is_group ? (
+                    <Icons.users size={20} color={colors.primary} />
+                  ) : (
+                    <Icons.user size={20} color={colors.primary} />
+                  )}
                 </View>
               )}
-              <Text style={[styles.headerUsername, { color: colors.text }]}>
-                {selectedUser.username}
-              </Text>
+              <View style={styles.headerInfo}>
+                <Text style={[styles.headerUsername, { color: colors.text }]} numberOfLines={1}>
+                  {getConversationTitle(selectedConversation)}
+                </Text>
+                {getHeaderSubtitle(selectedConversation) && (
+                  <Text
+                    style={[
+                      styles.headerSubtitle,
+                      { color: typingUsers.length > 0 ? colors.primary : colors.subtext },
+                    ]}
+                  >
+                    {getHeaderSubtitle(selectedConversation)}
+                  </Text>
+                )}
+              </View>
             </TouchableOpacity>
             <TouchableOpacity 
               style={[styles.headerButton, { backgroundColor: colors.primaryLight }]}
-              onPress={() => navigateToProfile(selectedUser.id)}
+              onPress={openConversationDetails}
             >
-              <Icons.user size={20} color={colors.primary} />
+              {selectedConversation.is_group ? (
+                <Icons.users size={20} color={colors.primary} />
+              ) : (
+                <Icons.user size={20} color={colors.primary} />
+              )}
             </TouchableOpacity>
           </>
         ) : (
           <>
             <Text style={[styles.title, { color: colors.text }]}>Messages</Text>
-            <TouchableOpacity style={[styles.newMessageButton, { backgroundColor: colors.primaryLight }]}>
-              <Icons.send size={20} color={colors.primary} />
+            <TouchableOpacity
+              style={[styles.newMessageButton, { backgroundColor: colors.primaryLight }]}
+              onPress={openNewGroup}
+            >
+              <Icons.users size={20} color={colors.primary} />
             </TouchableOpacity>
           </>
         )}
       </View>
 
-      {!selectedUser ? (
+      {!selectedConversation ? (
         <>
           <View style={[styles.searchContainer, { backgroundColor: colors.card }]}>
             <Icons.search size={20} color={colors.placeholder} style={styles.searchIcon} />
@@ -346,37 +710,44 @@ export default function Messages() {
           </View>
 
           <FlatList
-            data={users}
+            data={conversations}
             keyExtractor={item => item.id}
             renderItem={({ item }) => (
               <TouchableOpacity 
                 style={[styles.userItem, { backgroundColor: colors.card }]}
-                onPress={() => setSelectedUser(item)}
+                onPress={() => setSelectedConversation(item)}
               >
-                {item.avatar_url ? (
-                  <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
-                ) : (
-                  <View style={[styles.avatarPlaceholder, { backgroundColor: colors.primaryLight }]}>
-                    <Icons.user size={24} color={colors.primary} />
-                  </View>
-                )}
+                <View>
+                  {getConversationAvatar(item) ? (
+                    <Image source={{ uri: getConversationAvatar(item)! }} style={styles.avatar} />
+                  ) : (
+                    <View style={[styles.avatarPlaceholder, { backgroundColor: colors.primaryLight }]}>
+                      {item.is_group ? (
+                        <Icons.users size={24} color={colors.primary} />
+                      ) : (
+                        <Icons.user size={24} color={colors.primary} />
+                      )}
+                    </View>
+                  )}
+                  {item.other_user_id && onlineUserIds.has(item.other_user_id) && (
+                    <View style={[styles.onlineDot, { borderColor: colors.card }]} />
+                  )}
+                </View>
                 <View style={styles.userInfo}>
                   <View style={styles.userHeader}>
-                    <Text style={[styles.username, { color: colors.text }]}>
-                      {item.username}
+                    <Text style={[styles.username, { color: colors.text }]} numberOfLines={1}>
+                      {getConversationTitle(item)}
+                    </Text>
+                    <Text style={[styles.timestamp, { color: colors.subtext }]}>
+                      {formatTime(item.last_message_at)}
                     </Text>
-                    {item.last_message_time && (
-                      <Text style={[styles.timestamp, { color: colors.subtext }]}>
-                        {formatTime(item.last_message_time)}
-                      </Text>
-                    )}
                   </View>
-                  {item.last_message && (
+                  {getLastMessagePreview(item) && (
                     <Text 
                       style={[styles.lastMessage, { color: colors.subtext }]}
                       numberOfLines={1}
                     >
-                      {item.last_message}
+                      {getLastMessagePreview(item)}
                     </Text>
                   )}
                 </View>
@@ -388,6 +759,11 @@ export default function Messages() {
               </TouchableOpacity>
             )}
             contentContainerStyle={styles.userList}
+            onEndReached={loadMoreConversations}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator size="small" color={colors.primary} /> : null
+            }
           />
         </>
       ) : (
@@ -401,9 +777,34 @@ export default function Messages() {
             data={messages}
             keyExtractor={item => item.id}
             contentContainerStyle={styles.messageList}
-            onContentSizeChange={() => flatListRef.current?.scrollToEnd()}
+            maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+            onContentSizeChange={() => {
+              if (keepScrollPosition.current) {
+                keepScrollPosition.current = false;
+                return;
+              }
+              flatListRef.current?.scrollToEnd();
+            }}
+            ListHeaderComponent={
+              hasMoreMessages ? (
+                <TouchableOpacity
+                  style={styles.loadEarlierButton}
+                  onPress={loadOlderMessages}
+                  disabled={loadingOlderMessages}
+                >
+                  {loadingOlderMessages ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text style={[styles.loadEarlierText, { color: colors.primary }]}>
+                      Load earlier messages
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ) : null
+            }
+            onViewableItemsChanged={visibleMessages.onViewableItemsChanged}
             renderItem={({ item }) => {
-              const isOwnMessage = item.sender_id === selectedUser.id;
+              const isOwnMessage = item.sender_id !== currentUserId;
               return (
                 <View style={[
                   styles.messageContainer,
@@ -432,12 +833,30 @@ export default function Messages() {
                       ? [styles.receivedBubble, { backgroundColor: colors.primaryLight }]
                       : [styles.sentBubble, { backgroundColor: colors.primary }]
                   ]}>
-                    <Text style={[
-                      styles.messageText,
-                      { color: isOwnMessage ? colors.text : 'white' }
-                    ]}>
-                      {item.content}
-                    </Text>
+                    {isOwnMessage && selectedConversation.is_group && (
+                      <Text style={[styles.messageSender, { color: colors.primary }]}>
+                        {item.profiles.username}
+                      </Text>
+                    )}
+                    {renderAttachment(item)}
+                    {item.content ? (
+                      <Text style={[
+                        styles.messageText,
+                        item.attachment_type && styles.messageCaption,
+                        { color: isOwnMessage ? colors.text : 'white' }
+                      ]}>
+                        {item.content}
+                      </Text>
+                    ) : null}
+                    {!isOwnMessage && (
+                      <View style={styles.receipt}>
+                        {getMessageReceipt(item, readStates, currentUserId) === 'read' ? (
+                          <Icons.checkCheck size={14} color="white" />
+                        ) : (
+                          <Icons.check size={14} color="rgba(255, 255, 255, 0.6)" />
+                        )}
+                      </View>
+                    )}
                   </View>
                   <Text style={[styles.messageTime, { color: colors.subtext }]}>
                     {formatTime(item.created_at)}
@@ -447,14 +866,37 @@ export default function Messages() {
             }}
           />
 
+          {error && (
+            <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
+          )}
+          {renderPendingAttachment()}
+
           <View style={[styles.inputContainer, { backgroundColor: colors.card }]}>
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={pickAttachment}
+              disabled={validating || sending}
+            >
+              {validating ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Icons.image size={22} color={colors.primary} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={() => setVideoPickerVisible(true)}
+              disabled={sending}
+            >
+              <Icons.film size={22} color={colors.primary} />
+            </TouchableOpacity>
             <TextInput
               style={[styles.input, { 
                 backgroundColor: colors.background,
                 color: colors.text,
               }]}
               value={newMessage}
-              onChangeText={setNewMessage}
+              onChangeText={handleMessageChange}
               placeholder="Type a message..."
               placeholderTextColor={colors.placeholder}
               multiline
@@ -463,10 +905,10 @@ export default function Messages() {
               style={[
                 styles.sendButton,
                 { backgroundColor: colors.primary },
-                (!newMessage.trim() || sending) && { opacity: 0.5 }
+                !canSend && { opacity: 0.5 }
               ]}
               onPress={sendMessage}
-              disabled={!newMessage.trim() || sending}
+              disabled={!canSend}
             >
               {sending ? (
                 <ActivityIndicator size="small" color="white" />
@@ -477,6 +919,26 @@ export default function Messages() {
           </View>
         </KeyboardAvoidingView>
       )}
+
+      <GroupChatSheet
+        visible={groupSheetVisible}
+        conversation={selectedConversation?.is_group ? selectedConversation : null}
+        currentUserId={currentUserId}
+        onClose={() => setGroupSheetVisible(false)}
+        onSaved={handleGroupSaved}
+        onLeft={handleGroupLeft}
+      />
+
+      <VideoPickerSheet
+        visible={videoPickerVisible}
+        onClose={() => setVideoPickerVisible(false)}
+        onSelect={handleSharedVideoSelect}
+      />
+
+      <AttachmentViewer
+        attachment={viewerAttachment}
+        onClose={() => setViewerAttachment(null)}
+      />
     </View>
   );
 }
@@ -527,10 +989,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 12,
   },
+  headerInfo: {
+    flex: 1,
+  },
   headerUsername: {
     fontSize: 18,
     fontWeight: '600',
   },
+  headerSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   headerButton: {
     width: 40,
     height: 40,
@@ -585,6 +1054,16 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  onlineDot: {
+    position: 'absolute',
+    right: 16,
+    bottom: 2,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    backgroundColor: '#22C55E',
+  },
   userInfo: {
     flex: 1,
   },
@@ -623,6 +1102,15 @@ const styles = StyleSheet.create({
   messageList: {
     padding: 16,
   },
+  loadEarlierButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  loadEarlierText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   messageContainer: {
     marginBottom: 16,
     maxWidth: '80%',
@@ -663,10 +1151,63 @@ const styles = StyleSheet.create({
   receivedBubble: {
     borderBottomLeftRadius: 4,
   },
+  messageSender: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 22,
   },
+  messageCaption: {
+    marginTop: 8,
+  },
+  attachment: {
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  attachmentImage: {
+    width: 220,
+    height: 220,
+  },
+  attachmentPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  sharedVideo: {
+    width: 220,
+    flexDirection: 'row',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  sharedVideoThumbnail: {
+    width: 72,
+    height: 96,
+  },
+  sharedVideoInfo: {
+    flex: 1,
+    padding: 10,
+    justifyContent: 'space-between',
+  },
+  sharedVideoTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sharedVideoAction: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  receipt: {
+    alignSelf: 'flex-end',
+    marginTop: 2,
+  },
   messageTime: {
     fontSize: 12,
     marginTop: 2,
@@ -676,6 +1217,34 @@ const styles = StyleSheet.create({
     right: 0,
     textAlign: 'center',
   },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  pendingAttachment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  pendingThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+  },
+  pendingTitle: {
+    flex: 1,
+    fontSize: 14,
+  },
+  attachButton: {
+    width: 36,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 4,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
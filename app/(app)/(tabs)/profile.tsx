@@ -9,6 +9,9 @@ import {
   Dimensions,
   FlatList,
   Platform,
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from 'react-native';
 import { router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
@@ -20,6 +23,17 @@ import { Input } from '../../../components/Input';
 import { Icons } from '../../../components/Icons';
 import { Switch } from '../../../components/Switch';
 import { useTheme } from '../../../lib/ThemeContext';
+import { VideoListSource, useVideoList, countVideos, getVideoListParams } from '../../../lib/videos';
+import { useRealtimeVideoCounts, useViewableIds } from '../../../lib/realtimeCounts';
+import {
+  AnalyticsSummary,
+  VideoAnalytics,
+  FollowerGrowthPoint,
+  VIDEO_ANALYTICS_PAGE_SIZE,
+  fetchAnalyticsSummary,
+  fetchVideoAnalytics,
+  fetchFollowerGrowth,
+} from '../../../lib/analytics';
 
 interface Profile {
   username: string;
@@ -29,22 +43,14 @@ interface Profile {
   following_count?: number;
 }
 
-interface Video {
-  id: string;
-  title: string;
-  description: string;
-  video_url: string;
-  created_at: string;
-  like_count: number;
-  bookmark_count?: number;
-}
-
 const { width } = Dimensions.get('window');
 const COLUMN_COUNT = 3;
 const SPACING = 1;
 const ITEM_WIDTH = (width - (COLUMN_COUNT + 1) * SPACING) / COLUMN_COUNT;
 
-type TabType = 'videos' | 'likes' | 'bookmarks' | 'edit';
+type TabType = 'videos' | 'likes' | 'bookmarks' | 'analytics' | 'edit';
+
+const FOLLOWER_GROWTH_DAYS = 30;
 
 export default function Profile() {
   const { isDark, toggleTheme } = useTheme();
@@ -55,9 +61,7 @@ export default function Profile() {
     website: '',
     avatar_url: '',
   });
-  const [videos, setVideos] = useState<Video[]>([]);
-  const [likedVideos, setLikedVideos] = useState<Video[]>([]);
-  const [bookmarkedVideos, setBookmarkedVideos] = useState<Video[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState({
     videos: 0,
@@ -66,14 +70,37 @@ export default function Profile() {
     following: 0,
     bookmarks: 0,
   });
+  const [analyticsSummary, setAnalyticsSummary] = useState<AnalyticsSummary | null>(null);
+  const [videoAnalytics, setVideoAnalytics] = useState<VideoAnalytics[]>([]);
+  const [followerGrowth, setFollowerGrowth] = useState<FollowerGrowthPoint[]>([]);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+  const [hasMoreVideoAnalytics, setHasMoreVideoAnalytics] = useState(false);
+  const [loadingMoreVideoAnalytics, setLoadingMoreVideoAnalytics] = useState(false);
+
+  let listSource: VideoListSource | null = null;
+  if (userId && activeTab !== 'edit' && activeTab !== 'analytics') {
+    listSource = {
+      type: activeTab === 'likes' ? 'liked' : activeTab === 'bookmarks' ? 'bookmarked' : 'user',
+      userId,
+    };
+  }
+  const videoList = useVideoList(listSource);
+  // Counters of the thumbnails on screen update live
+  const viewableVideos = useViewableIds();
+  useRealtimeVideoCounts(viewableVideos.ids, videoList.updateVideo);
 
   useEffect(() => {
     loadProfile();
-    loadVideos();
-    loadLikedVideos();
-    loadBookmarkedVideos();
+    loadVideoCounts();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'analytics') {
+      loadAnalytics();
+    }
+  }, [activeTab]);
+
   async function loadProfile() {
     try {
       setError(null);
@@ -120,65 +147,70 @@ export default function Profile() {
     }
   }
 
-  async function loadVideos() {
+  async function loadVideoCounts() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from('videos')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      setUserId(user.id);
 
-      if (error) throw error;
+      const [videos, likes, bookmarks] = await Promise.all([
+        countVideos({ type: 'user', userId: user.id }),
+        countVideos({ type: 'liked', userId: user.id }),
+        countVideos({ type: 'bookmarked', userId: user.id }),
+      ]);
 
-      setVideos(data || []);
-      setStats(prev => ({ ...prev, videos: data?.length || 0 }));
+      setStats(prev => ({ ...prev, videos, likes, bookmarks }));
     } catch (error) {
-      console.error('Error loading videos:', error);
+      console.error('Error loading video counts:', error);
     }
   }
 
-  async function loadLikedVideos() {
+  async function loadAnalytics() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('video_likes')
-        .select('videos(*)')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const likedVideos = data?.map(item => item.videos).filter(Boolean) || [];
-      setLikedVideos(likedVideos);
-      setStats(prev => ({ ...prev, likes: likedVideos.length }));
+      setAnalyticsLoading(true);
+      setAnalyticsError(null);
+
+      const [summary, perVideo, growth] = await Promise.all([
+        fetchAnalyticsSummary(),
+        fetchVideoAnalytics(),
+        fetchFollowerGrowth(FOLLOWER_GROWTH_DAYS),
+      ]);
+
+      setAnalyticsSummary(summary);
+      setVideoAnalytics(perVideo);
+      setHasMoreVideoAnalytics(perVideo.length === VIDEO_ANALYTICS_PAGE_SIZE);
+      setFollowerGrowth(growth);
     } catch (error) {
-      console.error('Error loading liked videos:', error);
+      console.error('Error loading analytics:', error);
+      setAnalyticsError('Failed to load analytics');
+    } finally {
+      setAnalyticsLoading(false);
     }
   }
 
-  async function loadBookmarkedVideos() {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+  async function loadMoreVideoAnalytics() {
+    if (!hasMoreVideoAnalytics || loadingMoreVideoAnalytics) return;
 
-      const { data, error } = await supabase
-        .from('video_bookmarks')
-        .select('videos(*)')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+    try {
+      setLoadingMoreVideoAnalytics(true);
+      const page = await fetchVideoAnalytics(videoAnalytics.length);
+      setVideoAnalytics(prev => [...prev, ...page]);
+      setHasMoreVideoAnalytics(page.length === VIDEO_ANALYTICS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading video analytics:', error);
+    } finally {
+      setLoadingMoreVideoAnalytics(false);
+    }
+  }
 
-      if (error) throw error;
+  function handleScroll({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    const distanceFromEnd = contentSize.height - layoutMeasurement.height - contentOffset.y;
 
-      const bookmarkedVideos = data?.map(item => item.videos).filter(Boolean) || [];
-      setBookmarkedVideos(bookmarkedVideos);
-      setStats(prev => ({ ...prev, bookmarks: bookmarkedVideos.length }));
-    } catch (error) {
-      console.error('Error loading bookmarked videos:', error);
+    // The grid is nested in the page ScrollView, so load more from here
+    if (listSource && distanceFromEnd < layoutMeasurement.height / 2) {
+      videoList.loadMore();
     }
   }
 
@@ -279,7 +311,22 @@ export default function Profile() {
   }
 
   function navigateToVideo(videoId: string) {
-    router.push('/videoscroll');
+    router.push(`/video/${videoId}`);
+  }
+
+  function openInFeed(videoId: string) {
+    if (!listSource) return;
+    router.push({
+      pathname: '/videoscroll',
+      params: { ...getVideoListParams(listSource), videoId },
+    });
+  }
+
+  function formatDay(day: string): string {
+    return new Date(`${day}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
   }
 
   function navigateToFollowers() {
@@ -382,6 +429,23 @@ export default function Profile() {
             Bookmarks
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'analytics' && styles.activeTab]}
+          onPress={() => setActiveTab('analytics')}
+        >
+          <Icons.analytics
+            size={20}
+            color={activeTab === 'analytics' ? '#4F46E5' : '#64748B'}
+          />
+          <Text
+            style={[
+              styles.tabText,
+              activeTab === 'analytics' && styles.activeTabText,
+            ]}
+          >
+            Analytics
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.tab, activeTab === 'edit' && styles.activeTab]}
           onPress={() => setActiveTab('edit')}
@@ -404,22 +468,27 @@ export default function Profile() {
   }
 
   function renderVideosTab() {
-    let displayVideos;
+    const displayVideos = videoList.videos;
     let emptyStateMessage;
     
     switch (activeTab) {
       case 'likes':
-        displayVideos = likedVideos;
         emptyStateMessage = 'No liked videos';
         break;
       case 'bookmarks':
-        displayVideos = bookmarkedVideos;
         emptyStateMessage = 'No bookmarked videos';
         break;
       default:
-        displayVideos = videos;
         emptyStateMessage = 'No videos yet';
     }
+
+    if (videoList.loading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#4F46E5" />
+        </View>
+      );
+    }
     
     if (displayVideos.length === 0) {
       return (
@@ -436,14 +505,15 @@ export default function Profile() {
       <FlatList
         data={displayVideos}
         numColumns={COLUMN_COUNT}
+        onViewableItemsChanged={viewableVideos.onViewableItemsChanged}
         keyExtractor={item => item.id}
         renderItem={({ item }) => (
           <TouchableOpacity
             style={styles.videoItem}
-            onPress={() => navigateToVideo(item.id)}
+            onPress={() => openInFeed(item.id)}
           >
             <Image
-              source={{ uri: `https://picsum.photos/seed/${item.id}/300/400` }}
+              source={{ uri: item.thumbnail_url || `https://picsum.photos/seed/${item.id}/300/400` }}
               style={styles.videoThumbnail}
             />
             <View style={styles.videoOverlay}>
@@ -467,10 +537,136 @@ export default function Profile() {
           </TouchableOpacity>
         )}
         contentContainerStyle={styles.videoGrid}
+        scrollEnabled={false}
+        ListFooterComponent={
+          videoList.loadingMore ? (
+            <ActivityIndicator style={styles.footerLoader} size="small" color="#4F46E5" />
+          ) : null
+        }
       />
     );
   }
 
+  function renderAnalyticsTab() {
+    if (analyticsLoading && !analyticsSummary) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#4F46E5" />
+        </View>
+      );
+    }
+
+    if (analyticsError || !analyticsSummary) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={styles.error}>{analyticsError || 'No analytics available'}</Text>
+          <Button title="Retry" onPress={loadAnalytics} variant="secondary" />
+        </View>
+      );
+    }
+
+    const summaryItems = [
+      { label: 'Views', value: analyticsSummary.view_count, icon: Icons.eye },
+      { label: 'Likes', value: analyticsSummary.like_count, icon: Icons.heart },
+      { label: 'Comments', value: analyticsSummary.comment_count, icon: Icons.comment },
+      { label: 'Shares', value: analyticsSummary.share_count, icon: Icons.share },
+      { label: 'Bookmarks', value: analyticsSummary.bookmark_count, icon: Icons.bookmark },
+      { label: 'Followers', value: analyticsSummary.follower_count, icon: Icons.user },
+    ];
+    const maxNewFollowers = Math.max(1, ...followerGrowth.map(point => point.new_followers));
+    const newFollowers = followerGrowth.reduce((sum, point) => sum + point.new_followers, 0);
+
+    return (
+      <View style={styles.analytics}>
+        <View style={styles.summaryGrid}>
+          {summaryItems.map(item => (
+            <View key={item.label} style={styles.summaryCard}>
+              <item.icon size={18} color="#4F46E5" />
+              <Text style={styles.summaryValue}>{formatNumber(item.value)}</Text>
+              <Text style={styles.summaryLabel}>{item.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.analyticsSection}>
+          <View style={styles.analyticsSectionHeader}>
+            <Text style={styles.analyticsSectionTitle}>Follower growth</Text>
+            <Text style={styles.analyticsSectionSubtitle}>
+              +{formatNumber(newFollowers)} in {FOLLOWER_GROWTH_DAYS} days
+            </Text>
+          </View>
+          <View style={styles.growthChart}>
+            {followerGrowth.map(point => (
+              <View key={point.day} style={styles.growthBarContainer}>
+                <View
+                  style={[
+                    styles.growthBar,
+                    { height: `${Math.max(2, (point.new_followers / maxNewFollowers) * 100)}%` },
+                  ]}
+                />
+              </View>
+            ))}
+          </View>
+          {followerGrowth.length > 0 && (
+            <View style={styles.growthAxis}>
+              <Text style={styles.growthAxisText}>{formatDay(followerGrowth[0].day)}</Text>
+              <Text style={styles.growthAxisText}>
+                {formatDay(followerGrowth[followerGrowth.length - 1].day)}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.analyticsSection}>
+          <Text style={styles.analyticsSectionTitle}>Videos</Text>
+          {videoAnalytics.length === 0 ? (
+            <Text style={styles.analyticsSectionSubtitle}>Upload a video to see its performance</Text>
+          ) : (
+            videoAnalytics.map(video => (
+              <TouchableOpacity
+                key={video.id}
+                style={styles.videoAnalyticsItem}
+                onPress={() => navigateToVideo(video.id)}
+              >
+                <Image
+                  source={{ uri: video.thumbnail_url || `https://picsum.photos/seed/${video.id}/300/400` }}
+                  style={styles.videoAnalyticsThumbnail}
+                />
+                <View style={styles.videoAnalyticsInfo}>
+                  <Text style={styles.videoAnalyticsTitle} numberOfLines={1}>
+                    {video.title || 'Untitled Video'}
+                  </Text>
+                  <View style={styles.videoAnalyticsStats}>
+                    {[
+                      { key: 'views', value: video.view_count, icon: Icons.eye },
+                      { key: 'likes', value: video.like_count, icon: Icons.heart },
+                      { key: 'comments', value: video.comment_count, icon: Icons.comment },
+                      { key: 'shares', value: video.share_count, icon: Icons.share },
+                      { key: 'bookmarks', value: video.bookmark_count, icon: Icons.bookmark },
+                    ].map(stat => (
+                      <View key={stat.key} style={styles.videoAnalyticsStat}>
+                        <stat.icon size={12} color="#64748B" />
+                        <Text style={styles.videoAnalyticsStatText}>{formatNumber(stat.value)}</Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+          {hasMoreVideoAnalytics && (
+            <Button
+              title="Load more"
+              onPress={loadMoreVideoAnalytics}
+              loading={loadingMoreVideoAnalytics}
+              variant="secondary"
+            />
+          )}
+        </View>
+      </View>
+    );
+  }
+
   function renderEditTab() {
     return (
       <View style={[styles.form, isDark && styles.darkForm]}>
@@ -513,10 +709,14 @@ export default function Profile() {
 
   return (
     <View style={[styles.container, isDark && styles.darkContainer]}>
-      <ScrollView>
+      <ScrollView onScroll={handleScroll} scrollEventThrottle={400}>
         {renderHeader()}
         {renderTabs()}
-        {activeTab === 'edit' ? renderEditTab() : renderVideosTab()}
+        {activeTab === 'edit'
+          ? renderEditTab()
+          : activeTab === 'analytics'
+            ? renderAnalyticsTab()
+            : renderVideosTab()}
       </ScrollView>
     </View>
   );
@@ -624,6 +824,9 @@ const styles = StyleSheet.create({
   videoGrid: {
     padding: SPACING,
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   videoItem: {
     width: ITEM_WIDTH,
     aspectRatio: 3/4,
@@ -665,6 +868,114 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#64748B',
   },
+  analytics: {
+    padding: 16,
+    gap: 16,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  summaryCard: {
+    width: (width - 32 - 16) / 3,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'flex-start',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginTop: 8,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  analyticsSection: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    gap: 12,
+  },
+  analyticsSectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  analyticsSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  analyticsSectionSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  growthChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 100,
+    gap: 2,
+  },
+  growthBarContainer: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  growthBar: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 2,
+  },
+  growthAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  growthAxisText: {
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  videoAnalyticsItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  videoAnalyticsThumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 6,
+    backgroundColor: '#E2E8F0',
+  },
+  videoAnalyticsInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  videoAnalyticsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 6,
+  },
+  videoAnalyticsStats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  videoAnalyticsStat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  videoAnalyticsStatText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
   darkContainer: {
     backgroundColor: '#1E293B',
   },
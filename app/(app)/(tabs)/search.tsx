@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -6,20 +6,378 @@ import {
   TextInput,
   TouchableOpacity,
   ScrollView,
+  FlatList,
+  Image,
+  ActivityIndicator,
 } from 'react-native';
+import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import {
+  VideoSearchResult,
+  ProfileSearchResult,
+  TagSearchResult,
+  SEARCH_PAGE_SIZE,
+  searchVideos,
+  searchProfiles,
+  searchTags,
+} from '../../../lib/search';
+
+type FilterType = 'all' | 'videos' | 'people' | 'tags';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const ALL_SECTION_SIZE = 5;
 
 export default function Search() {
   const [searchQuery, setSearchQuery] = useState('');
-  const [activeFilter, setActiveFilter] = useState('all');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeFilter, setActiveFilter] = useState<FilterType>('all');
+  const [videoResults, setVideoResults] = useState<VideoSearchResult[]>([]);
+  const [profileResults, setProfileResults] = useState<ProfileSearchResult[]>([]);
+  const [tagResults, setTagResults] = useState<TagSearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
 
-  const filters = [
+  const filters: { id: FilterType; label: string }[] = [
     { id: 'all', label: 'All' },
     { id: 'videos', label: 'Videos' },
     { id: 'people', label: 'People' },
     { id: 'tags', label: 'Tags' },
   ];
 
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim());
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    runSearch();
+  }, [debouncedQuery, activeFilter]);
+
+  async function runSearch() {
+    // Responses for older queries are ignored once a newer search has started
+    const currentRequest = ++requestId.current;
+
+    if (!debouncedQuery) {
+      setVideoResults([]);
+      setProfileResults([]);
+      setTagResults([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (activeFilter === 'all') {
+        const [videos, profiles, tags] = await Promise.all([
+          searchVideos(debouncedQuery, 0, ALL_SECTION_SIZE),
+          searchProfiles(debouncedQuery, 0, ALL_SECTION_SIZE),
+          searchTags(debouncedQuery, 0, ALL_SECTION_SIZE),
+        ]);
+        if (currentRequest !== requestId.current) return;
+
+        setVideoResults(videos);
+        setProfileResults(profiles);
+        setTagResults(tags);
+        setHasMore(false);
+        return;
+      }
+
+      const count = await fetchPage(activeFilter, 0, false);
+      if (currentRequest !== requestId.current) return;
+      setHasMore(count === SEARCH_PAGE_SIZE);
+    } catch (error) {
+      if (currentRequest !== requestId.current) return;
+      console.error('Error searching:', error);
+      setError('Search failed. Please try again.');
+    } finally {
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+      }
+    }
+  }
+
+  async function fetchPage(filter: Exclude<FilterType, 'all'>, offset: number, append: boolean) {
+    const currentRequest = requestId.current;
+
+    switch (filter) {
+      case 'videos': {
+        const page = await searchVideos(debouncedQuery, offset);
+        if (currentRequest !== requestId.current) return 0;
+        setVideoResults(prev => (append ? [...prev, ...page] : page));
+        return page.length;
+      }
+      case 'people': {
+        const page = await searchProfiles(debouncedQuery, offset);
+        if (currentRequest !== requestId.current) return 0;
+        setProfileResults(prev => (append ? [...prev, ...page] : page));
+        return page.length;
+      }
+      case 'tags': {
+        const page = await searchTags(debouncedQuery, offset);
+        if (currentRequest !== requestId.current) return 0;
+        setTagResults(prev => (append ? [...prev, ...page] : page));
+        return page.length;
+      }
+    }
+  }
+
+  async function loadMore() {
+    if (activeFilter === 'all' || !hasMore || loading || loadingMore) return;
+
+    const offset = {
+      videos: videoResults.length,
+      people: profileResults.length,
+      tags: tagResults.length,
+    }[activeFilter];
+
+    try {
+      setLoadingMore(true);
+      const count = await fetchPage(activeFilter, offset, true);
+      setHasMore(count === SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more results:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function formatNumber(num: number): string {
+    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return num.toString();
+  }
+
+  function navigateToVideo(videoId: string) {
+    router.push(`/video/${videoId}`);
+  }
+
+  function navigateToProfile(userId: string) {
+    router.push(`/profile/${userId}`);
+  }
+
+  function navigateToTag(tag: string) {
+    router.push(`/tag/${encodeURIComponent(tag)}`);
+  }
+
+  function renderVideoItem(item: VideoSearchResult) {
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={styles.resultItem}
+        onPress={() => navigateToVideo(item.id)}
+      >
+        <Image
+          source={{ uri: item.thumbnail_url || `https://picsum.photos/seed/${item.id}/300/400` }}
+          style={styles.videoThumbnail}
+        />
+        <View style={styles.resultInfo}>
+          <Text style={styles.resultTitle} numberOfLines={1}>
+            {item.title || 'Untitled Video'}
+          </Text>
+          {!!item.description && (
+            <Text style={styles.resultSubtitle} numberOfLines={2}>
+              {item.description}
+            </Text>
+          )}
+          <View style={styles.resultMeta}>
+            <Text style={styles.resultMetaText}>
+              @{item.username || `user_${item.user_id.slice(0, 8)}`}
+            </Text>
+            <Ionicons name="heart" size={12} color="#94A3B8" />
+            <Text style={styles.resultMetaText}>{formatNumber(item.like_count || 0)}</Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  function renderProfileItem(item: ProfileSearchResult) {
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={styles.resultItem}
+        onPress={() => navigateToProfile(item.id)}
+      >
+        {item.avatar_url ? (
+          <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={styles.avatarPlaceholder}>
+            <Ionicons name="person" size={24} color="#94A3B8" />
+          </View>
+        )}
+        <View style={styles.resultInfo}>
+          <Text style={styles.resultTitle}>
+            @{item.username || `user_${item.id.slice(0, 8)}`}
+          </Text>
+          <Text style={styles.resultSubtitle}>
+            {formatNumber(item.follower_count || 0)} followers
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  function renderTagItem(item: TagSearchResult) {
+    return (
+      <TouchableOpacity
+        key={item.tag}
+        style={styles.resultItem}
+        onPress={() => navigateToTag(item.tag)}
+      >
+        <View style={styles.tagIcon}>
+          <Text style={styles.tagIconText}>#</Text>
+        </View>
+        <View style={styles.resultInfo}>
+          <Text style={styles.resultTitle}>#{item.tag}</Text>
+          <Text style={styles.resultSubtitle}>
+            {formatNumber(item.video_count)} {item.video_count === 1 ? 'video' : 'videos'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  function renderSection<T>(
+    title: string,
+    filter: Exclude<FilterType, 'all'>,
+    items: T[],
+    renderItem: (item: T) => JSX.Element
+  ) {
+    if (items.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{title}</Text>
+          {items.length >= ALL_SECTION_SIZE && (
+            <TouchableOpacity onPress={() => setActiveFilter(filter)}>
+              <Text style={styles.seeAllText}>See all</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {items.map(renderItem)}
+      </View>
+    );
+  }
+
+  function renderEmptyState() {
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="search-outline" size={48} color="#94A3B8" />
+        <Text style={styles.emptyStateTitle}>Start searching</Text>
+        <Text style={styles.emptyStateText}>
+          Search for videos, people, or tags to discover amazing content
+        </Text>
+      </View>
+    );
+  }
+
+  function renderNoResults() {
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="sad-outline" size={48} color="#94A3B8" />
+        <Text style={styles.emptyStateTitle}>No results</Text>
+        <Text style={styles.emptyStateText}>
+          Nothing matched "{debouncedQuery}". Try a different search.
+        </Text>
+      </View>
+    );
+  }
+
+  function renderResults() {
+    if (!debouncedQuery) {
+      return renderEmptyState();
+    }
+
+    if (loading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#4F46E5" />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={runSearch} style={styles.retryButton}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (activeFilter === 'all') {
+      if (videoResults.length === 0 && profileResults.length === 0 && tagResults.length === 0) {
+        return renderNoResults();
+      }
+
+      return (
+        <ScrollView contentContainerStyle={styles.resultsList}>
+          {renderSection('People', 'people', profileResults, renderProfileItem)}
+          {renderSection('Videos', 'videos', videoResults, renderVideoItem)}
+          {renderSection('Tags', 'tags', tagResults, renderTagItem)}
+        </ScrollView>
+      );
+    }
+
+    const footer = loadingMore ? (
+      <ActivityIndicator style={styles.footerLoader} size="small" color="#4F46E5" />
+    ) : null;
+
+    switch (activeFilter) {
+      case 'videos':
+        return (
+          <FlatList
+            data={videoResults}
+            keyExtractor={item => item.id}
+            renderItem={({ item }) => renderVideoItem(item)}
+            contentContainerStyle={styles.resultsList}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListEmptyComponent={renderNoResults}
+            ListFooterComponent={footer}
+          />
+        );
+      case 'people':
+        return (
+          <FlatList
+            data={profileResults}
+            keyExtractor={item => item.id}
+            renderItem={({ item }) => renderProfileItem(item)}
+            contentContainerStyle={styles.resultsList}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListEmptyComponent={renderNoResults}
+            ListFooterComponent={footer}
+          />
+        );
+      case 'tags':
+        return (
+          <FlatList
+            data={tagResults}
+            keyExtractor={item => item.tag}
+            renderItem={({ item }) => renderTagItem(item)}
+            contentContainerStyle={styles.resultsList}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListEmptyComponent={renderNoResults}
+            ListFooterComponent={footer}
+          />
+        );
+    }
+  }
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -36,6 +394,9 @@ export default function Search() {
             onChangeText={setSearchQuery}
             placeholderTextColor="#94A3B8"
             returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={() => setDebouncedQuery(searchQuery.trim())}
           />
           {searchQuery.length > 0 && (
             <TouchableOpacity 
@@ -75,13 +436,7 @@ export default function Search() {
       </View>
 
       <View style={styles.content}>
-        <View style={styles.emptyState}>
-          <Ionicons name="search-outline" size={48} color="#94A3B8" />
-          <Text style={styles.emptyStateTitle}>Start searching</Text>
-          <Text style={styles.emptyStateText}>
-            Search for videos, people, or tags to discover amazing content
-          </Text>
-        </View>
+        {renderResults()}
       </View>
     </View>
   );
@@ -154,12 +509,120 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
-    padding: 24,
+  },
+  resultsList: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  seeAllText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4F46E5',
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  resultInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 2,
+  },
+  resultSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  resultMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  resultMetaText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginRight: 4,
+  },
+  videoThumbnail: {
+    width: 60,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: '#E2E8F0',
+  },
+  avatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+  },
+  avatarPlaceholder: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tagIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tagIconText: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  errorText: {
+    color: '#EF4444',
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#4F46E5',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
   },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    padding: 24,
   },
   emptyStateTitle: {
     fontSize: 20,
@@ -9,14 +9,36 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Image,
+  GestureResponderEvent,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import { v4 as uuidv4 } from 'uuid';
 import 'react-native-get-random-values';
 import { supabase } from '../../../lib/supabase';
+import { QueuedUpload, useUploadQueue, enqueueUpload, retryUpload, removeUpload } from '../../../lib/uploads';
+import { VideoDraft, useDrafts, saveDraft, deleteDraft, checkDraftFiles } from '../../../lib/drafts';
+import { VideoVisibility } from '../../../lib/videos';
+import {
+  MAX_VIDEO_SIZE,
+  MAX_VIDEO_DURATION,
+  canCompressVideo,
+  compressVideo,
+  getVideoContentType,
+  getVideoExtension,
+  getVideoSizeError,
+  validateVideo,
+} from '../../../lib/videoProcessing';
+import {
+  DEFAULT_THUMBNAIL_TIME,
+  generateThumbnail,
+  generateFrameStrip,
+} from '../../../lib/thumbnails';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
+import { VisibilityPicker, getPublishAtError } from '../../../components/VisibilityPicker';
+import { Switch } from '../../../components/Switch';
 import { Ionicons } from '@expo/vector-icons';
 import { Icons } from '../../../components/Icons';
 
@@ -33,12 +55,16 @@ interface LocationDetails {
   longitude: number;
 }
 
-const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
-const MAX_DURATION = 60; // 60 seconds
+const DRAFT_SAVE_DELAY_MS = 1000;
 
 export default function Videos() {
   const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [validating, setValidating] = useState(false);
+  const [optimize, setOptimize] = useState(canCompressVideo);
+  const [compressionProgress, setCompressionProgress] = useState<number | null>(null);
+  const uploads = useUploadQueue();
+  const drafts = useDrafts();
+  const [draftId, setDraftId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<VideoDetails | null>(null);
   const [title, setTitle] = useState('');
@@ -48,7 +74,21 @@ export default function Videos() {
   const [locationLoading, setLocationLoading] = useState(false);
   const [useCurrentLocation, setUseCurrentLocation] = useState(false);
   const [address, setAddress] = useState('');
+  const [visibility, setVisibility] = useState<VideoVisibility>('public');
+  const [publishAt, setPublishAt] = useState<string | null>(null);
+  // Bumped whenever the form is replaced, so the schedule inputs start over
+  const [formVersion, setFormVersion] = useState(0);
+  const [thumbnailUri, setThumbnailUri] = useState<string | null>(null);
+  const [thumbnailTime, setThumbnailTime] = useState(DEFAULT_THUMBNAIL_TIME);
+  const [frames, setFrames] = useState<string[]>([]);
+  const [generatingThumbnail, setGeneratingThumbnail] = useState(false);
+  const [scrubberWidth, setScrubberWidth] = useState(0);
   const videoRef = useRef(null);
+  const thumbnailRequestId = useRef(0);
+  const selectedVideoRef = useRef<VideoDetails | null>(null);
+  selectedVideoRef.current = selectedVideo;
+  // Cover of a resumed draft, applied instead of generating a new one
+  const restoredThumbnail = useRef<{ uri: string | null; time: number } | null>(null);
 
   useEffect(() => {
     if (useCurrentLocation) {
@@ -58,6 +98,144 @@ export default function Videos() {
     }
   }, [useCurrentLocation]);
 
+  useEffect(() => {
+    const restored = restoredThumbnail.current;
+    restoredThumbnail.current = null;
+
+    setThumbnailUri(restored?.uri ?? null);
+    setFrames([]);
+    if (selectedVideo) {
+      loadFrames(selectedVideo, restored);
+    }
+  }, [selectedVideo]);
+
+  // Saves the form as a draft shortly after the user stops editing, so
+  // leaving the tab does not lose it
+  useEffect(() => {
+    if (!selectedVideo && !title.trim() && !description.trim()) return;
+
+    const timer = setTimeout(persistDraft, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [selectedVideo, title, description, locationDetails, thumbnailUri, thumbnailTime, visibility, publishAt]);
+
+  async function persistDraft() {
+    const id = draftId || uuidv4();
+    setDraftId(id);
+
+    await saveDraft({
+      id,
+      // Blob URLs on web only live as long as the page, so web drafts keep
+      // the text fields only
+      video: Platform.OS === 'web' ? null : selectedVideo,
+      title,
+      description,
+      location: locationDetails,
+      thumbnailUri: Platform.OS === 'web' ? null : thumbnailUri,
+      thumbnailTime,
+      visibility,
+      publishAt,
+    });
+  }
+
+  function resetForm() {
+    setDraftId(null);
+    setSelectedVideo(null);
+    setThumbnailUri(null);
+    setFrames([]);
+    setTitle('');
+    setDescription('');
+    setAddress('');
+    setLocationDetails(null);
+    setUseCurrentLocation(false);
+    setVisibility('public');
+    setPublishAt(null);
+    setFormVersion(version => version + 1);
+    setError(null);
+  }
+
+  async function resumeDraft(savedDraft: VideoDraft) {
+    const draft = await checkDraftFiles(savedDraft);
+    restoredThumbnail.current = draft.video
+      ? { uri: draft.thumbnailUri, time: draft.thumbnailTime }
+      : null;
+
+    setDraftId(draft.id);
+    setSelectedVideo(draft.video);
+    setTitle(draft.title);
+    setDescription(draft.description);
+    setLocationDetails(draft.location);
+    setAddress(draft.location?.address || '');
+    setVisibility(draft.visibility || 'public');
+    setPublishAt(draft.publishAt ?? null);
+    setFormVersion(version => version + 1);
+    setError(savedDraft.video && !draft.video
+      ? 'The video of this draft is no longer on your device. Please select it again.'
+      : null);
+  }
+
+  async function discardDraft(id: string) {
+    if (id === draftId) {
+      resetForm();
+    }
+    await deleteDraft(id);
+  }
+
+  async function loadFrames(video: VideoDetails, restored: { uri: string | null; time: number } | null) {
+    const time = restored ? restored.time : Math.min(DEFAULT_THUMBNAIL_TIME, video.duration / 2);
+    setThumbnailTime(time);
+
+    try {
+      if (!restored?.uri) {
+        await selectThumbnail(video, time);
+      }
+
+      const strip = await generateFrameStrip(video.uri, video.duration);
+      if (video === selectedVideoRef.current) {
+        setFrames(strip);
+      }
+    } catch (error) {
+      console.warn('Error generating video frames:', error);
+    }
+  }
+
+  async function selectThumbnail(video: VideoDetails, time: number) {
+    // Ignore frames for a position the user already scrubbed past
+    const requestId = ++thumbnailRequestId.current;
+
+    try {
+      setGeneratingThumbnail(true);
+
+      const uri = await generateThumbnail(video.uri, time);
+      if (requestId !== thumbnailRequestId.current) return;
+
+      setThumbnailUri(uri);
+    } catch (error) {
+      if (requestId !== thumbnailRequestId.current) return;
+      console.warn('Error generating thumbnail:', error);
+    } finally {
+      if (requestId === thumbnailRequestId.current) {
+        setGeneratingThumbnail(false);
+      }
+    }
+  }
+
+  function getScrubberTime(event: GestureResponderEvent) {
+    if (!selectedVideo || scrubberWidth === 0) return thumbnailTime;
+    const ratio = Math.min(1, Math.max(0, event.nativeEvent.locationX / scrubberWidth));
+    return ratio * selectedVideo.duration;
+  }
+
+  function handleScrub(event: GestureResponderEvent) {
+    setThumbnailTime(getScrubberTime(event));
+  }
+
+  function handleScrubEnd(event: GestureResponderEvent) {
+    if (!selectedVideo) return;
+    const time = getScrubberTime(event);
+    setThumbnailTime(time);
+    selectThumbnail(selectedVideo, time);
+  }
+
   async function getCurrentLocation() {
     try {
       setLocationLoading(true);
@@ -144,28 +322,36 @@ export default function Videos() {
         mediaTypes: ['videos'],
         allowsEditing: true,
         quality: 1,
-        videoMaxDuration: MAX_DURATION,
+        videoMaxDuration: MAX_VIDEO_DURATION,
       });
 
       if (!result.canceled && result.assets[0]) {
         const video = result.assets[0];
-        
-        // Check video size
-        if (video.fileSize && video.fileSize > MAX_VIDEO_SIZE) {
-          setError('Video size must be less than 100MB');
+        // The picker reports the duration in milliseconds
+        const duration = video.duration ? video.duration / 1000 : 0;
+
+        setValidating(true);
+        const validationError = await validateVideo(
+          { uri: video.uri, duration, mimeType: video.mimeType, size: video.fileSize },
+          { compress: optimize && canCompressVideo }
+        );
+        if (validationError) {
+          setError(validationError);
           return;
         }
 
         setSelectedVideo({
           uri: video.uri,
-          duration: video.duration || 0,
-          type: video.type || 'video/mp4',
+          duration,
+          type: getVideoContentType(video.uri, video.mimeType)!,
           size: video.fileSize,
         });
       }
     } catch (error) {
       console.error('Error picking video:', error);
       setError('Failed to pick video. Please try again.');
+    } finally {
+      setValidating(false);
     }
   }
 
@@ -180,96 +366,103 @@ export default function Videos() {
       return;
     }
 
+    const scheduleError = getPublishAtError(publishAt);
+    if (scheduleError) {
+      setError(scheduleError);
+      return;
+    }
+
     try {
       setUploading(true);
       setError(null);
-      setUploadProgress(0);
 
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      // Generate unique filename
-      const ext = selectedVideo.uri.substring(selectedVideo.uri.lastIndexOf('.') + 1);
-      const fileName = `${uuidv4()}.${ext}`;
-      const filePath = `${user.id}/${fileName}`;
-
-      let fileData;
-      if (Platform.OS === 'web') {
-        // For web, fetch the file and create a blob
-        const response = await fetch(selectedVideo.uri);
-        const blob = await response.blob();
-        fileData = blob;
-      } else {
-        // For native platforms, use the file URI directly
-        fileData = {
-          uri: selectedVideo.uri,
-          type: selectedVideo.type || 'video/mp4',
-          name: fileName,
-        };
+      let video = selectedVideo;
+      if (optimize && canCompressVideo) {
+        try {
+          setCompressionProgress(0);
+          video = await compressVideo(selectedVideo, setCompressionProgress);
+        } catch (compressionError) {
+          // The original is still uploadable unless it is over the limit,
+          // which is reported below
+          console.warn('Error compressing video:', compressionError);
+        } finally {
+          setCompressionProgress(null);
+        }
       }
 
-      // Upload video to storage with progress tracking
-      const { error: uploadError } = await supabase.storage
-        .from('videos')
-        .upload(filePath, fileData, {
-          contentType: selectedVideo.type || 'video/mp4',
-          upsert: true,
-          onUploadProgress: (progress) => {
-            const percentage = (progress.loaded / (progress.total || 1)) * 100;
-            setUploadProgress(Math.round(percentage));
-          },
-        });
+      const sizeError = getVideoSizeError(video.size);
+      if (sizeError) {
+        setError(`${sizeError}. Please choose a shorter clip.`);
+        return;
+      }
+
+      // Generate unique filename
+      const fileName = `${uuidv4()}.${getVideoExtension(video.type)}`;
 
-      if (uploadError) {
-        if (uploadError.message.includes('storage quota')) {
-          throw new Error('Storage quota exceeded. Please try a smaller video.');
+      let coverUri = thumbnailUri;
+      if (!coverUri) {
+        try {
+          coverUri = await generateThumbnail(selectedVideo.uri, thumbnailTime);
+        } catch (thumbnailError) {
+          console.warn('Error generating thumbnail:', thumbnailError);
         }
-        throw uploadError;
       }
 
-      // Get video URL
-      const { data: { publicUrl: videoUrl } } = supabase.storage
-        .from('videos')
-        .getPublicUrl(filePath);
-
-      // Create video record in database with location data if available
-      const videoData = {
-        user_id: user.id,
-        video_url: videoUrl,
-        title: title.trim(),
-        description: description.trim(),
-        ...(locationDetails && {
-          address: locationDetails.address,
-          latitude: locationDetails.latitude,
-          longitude: locationDetails.longitude,
-        }),
-      };
-
-      const { error: dbError } = await supabase
-        .from('videos')
-        .insert(videoData);
-
-      if (dbError) throw dbError;
-
-      // Reset form
-      setSelectedVideo(null);
-      setTitle('');
-      setDescription('');
-      setAddress('');
-      setLocationDetails(null);
-      setUseCurrentLocation(false);
-      setError(null);
-      setUploadProgress(0);
-      
-      Alert.alert('Success', 'Video uploaded successfully!');
+      // The queue uploads the file in the background and creates the video
+      // row once it is complete
+      await enqueueUpload({
+        userId: user.id,
+        fileUri: video.uri,
+        contentType: video.type,
+        size: video.size,
+        objectName: `${user.id}/${fileName}`,
+        thumbnailUri: coverUri,
+        details: {
+          title: title.trim(),
+          description: description.trim(),
+          visibility,
+          publish_at: publishAt,
+          ...(locationDetails && {
+            address: locationDetails.address,
+            latitude: locationDetails.latitude,
+            longitude: locationDetails.longitude,
+          }),
+        },
+      });
+
+      if (draftId) {
+        await deleteDraft(draftId);
+      }
+
+      resetForm();
+
+      Alert.alert('Upload started', 'Your video will be published once the upload finishes.');
     } catch (error) {
-      console.error('Error uploading video:', error);
+      console.error('Error queueing upload:', error);
       setError(error.message || 'Failed to upload video. Please try again.');
     } finally {
       setUploading(false);
     }
   }
 
+  function getUploadStatusText(upload: QueuedUpload) {
+    switch (upload.status) {
+      case 'completed':
+        return 'Uploaded';
+      case 'failed':
+        return upload.error || 'Upload failed';
+      case 'uploading':
+        return upload.fileUploaded ? 'Publishing...' : `Uploading... ${upload.progress}%`;
+      default:
+        return upload.nextAttemptAt
+          ? `Waiting to retry (attempt ${upload.attempts + 1})`
+          : 'Waiting to upload';
+    }
+  }
+
   function formatDuration(seconds: number) {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = Math.floor(seconds % 60);
@@ -301,12 +494,18 @@ export default function Videos() {
           <TouchableOpacity 
             style={styles.uploadArea} 
             onPress={pickVideo}
-            disabled={uploading}
+            disabled={uploading || validating}
           >
-            <Ionicons name="cloud-upload" size={48} color="#4F46E5" />
-            <Text style={styles.uploadText}>Tap to select a video</Text>
+            {validating ? (
+              <ActivityIndicator size="large" color="#4F46E5" />
+            ) : (
+              <Ionicons name="cloud-upload" size={48} color="#4F46E5" />
+            )}
+            <Text style={styles.uploadText}>
+              {validating ? 'Checking video...' : 'Tap to select a video'}
+            </Text>
             <Text style={styles.uploadSubtext}>
-              Maximum size: {formatFileSize(MAX_VIDEO_SIZE)}
+              MP4, MOV or WebM, up to {MAX_VIDEO_DURATION} seconds and {formatFileSize(MAX_VIDEO_SIZE)}
             </Text>
           </TouchableOpacity>
         ) : (
@@ -332,11 +531,65 @@ export default function Videos() {
               <TouchableOpacity 
                 style={styles.changeButton}
                 onPress={pickVideo}
-                disabled={uploading}
+                disabled={uploading || validating}
               >
-                <Text style={styles.changeButtonText}>Change Video</Text>
+                <Text style={styles.changeButtonText}>
+                  {validating ? 'Checking...' : 'Change Video'}
+                </Text>
               </TouchableOpacity>
             </View>
+
+            <View style={styles.coverSection}>
+              <Text style={styles.sectionTitle}>Cover</Text>
+              <View style={styles.coverRow}>
+                <View style={styles.coverPreview}>
+                  {thumbnailUri ? (
+                    <Image source={{ uri: thumbnailUri }} style={imageStyles.coverImage} />
+                  ) : null}
+                  {generatingThumbnail && (
+                    <View style={styles.coverLoading}>
+                      <ActivityIndicator size="small" color="white" />
+                    </View>
+                  )}
+                </View>
+
+                <View style={styles.scrubberContainer}>
+                  <View
+                    style={styles.scrubber}
+                    onLayout={event => setScrubberWidth(event.nativeEvent.layout.width)}
+                    onStartShouldSetResponder={() => !uploading}
+                    onMoveShouldSetResponder={() => !uploading}
+                    onResponderGrant={handleScrub}
+                    onResponderMove={handleScrub}
+                    onResponderRelease={handleScrubEnd}
+                  >
+                    <View pointerEvents="none" style={styles.scrubberFrames}>
+                      {frames.map((frame, index) => (
+                        <Image
+                          key={index}
+                          source={{ uri: frame }}
+                          style={imageStyles.scrubberFrame}
+                        />
+                      ))}
+                    </View>
+                    <View
+                      pointerEvents="none"
+                      style={[
+                        styles.scrubberMarker,
+                        {
+                          left: selectedVideo.duration > 0
+                            ? `${(thumbnailTime / selectedVideo.duration) * 100}%`
+                            : 0,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.scrubberHint}>
+                    Drag to choose a cover frame ({formatDuration(thumbnailTime)})
+                  </Text>
+                </View>
+              </View>
+            </View>
           </View>
         )}
 
@@ -414,27 +667,117 @@ export default function Videos() {
             )}
           </View>
 
+          {canCompressVideo && (
+            <View style={styles.optimizeRow}>
+              <View style={styles.optimizeInfo}>
+                <Text style={styles.label}>Optimize for faster playback</Text>
+                <Text style={styles.optimizeHint}>
+                  Converts the video to 720p before uploading
+                </Text>
+              </View>
+              <Switch value={optimize} onValueChange={value => !uploading && setOptimize(value)} />
+            </View>
+          )}
+
+          <VisibilityPicker
+            key={formVersion}
+            visibility={visibility}
+            onVisibilityChange={setVisibility}
+            publishAt={publishAt}
+            onPublishAtChange={setPublishAt}
+            disabled={uploading}
+          />
+
           <Button
-            title={uploading ? 'Uploading...' : 'Upload Video'}
+            title={
+              compressionProgress !== null
+                ? `Optimizing ${Math.round(compressionProgress * 100)}%`
+                : uploading ? 'Preparing...' : 'Upload Video'
+            }
             onPress={handleUpload}
             loading={uploading}
           />
         </View>
 
-        {uploading && (
-          <View style={styles.uploadingContainer}>
-            <ActivityIndicator size="large" color="#4F46E5" />
-            <Text style={styles.uploadingText}>
-              Uploading video... {uploadProgress}%
-            </Text>
-            <View style={styles.progressBar}>
-              <View 
-                style={[
-                  styles.progressFill, 
-                  { width: `${uploadProgress}%` }
-                ]} 
-              />
+        {drafts.length > 0 && (
+          <View style={styles.uploadsSection}>
+            <View style={styles.draftsHeader}>
+              <Text style={styles.sectionTitle}>Drafts</Text>
+              {draftId && (
+                <TouchableOpacity onPress={resetForm} disabled={uploading}>
+                  <Text style={styles.newDraftText}>Start new</Text>
+                </TouchableOpacity>
+              )}
             </View>
+            {drafts.map(draft => (
+              <TouchableOpacity
+                key={draft.id}
+                style={[styles.uploadItem, draft.id === draftId && styles.activeDraftItem]}
+                onPress={() => resumeDraft(draft)}
+                disabled={uploading || draft.id === draftId}
+              >
+                <View style={styles.uploadItemHeader}>
+                  <View style={styles.draftIcon}>
+                    <Icons.video size={20} color="#4F46E5" />
+                  </View>
+                  <View style={styles.draftInfo}>
+                    <Text style={styles.uploadItemTitle} numberOfLines={1}>
+                      {draft.title.trim() || 'Untitled draft'}
+                    </Text>
+                    <Text style={styles.draftMeta} numberOfLines={1}>
+                      {draft.id === draftId ? 'Editing' : `Saved ${new Date(draft.updatedAt).toLocaleDateString()}`}
+                      {' • '}
+                      {draft.video ? formatDuration(draft.video.duration) : 'No video selected'}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => discardDraft(draft.id)} disabled={uploading}>
+                    <Icons.trash size={18} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {uploads.length > 0 && (
+          <View style={styles.uploadsSection}>
+            <Text style={styles.sectionTitle}>Uploads</Text>
+            {uploads.map(upload => (
+              <View key={upload.id} style={styles.uploadItem}>
+                <View style={styles.uploadItemHeader}>
+                  <Text style={styles.uploadItemTitle} numberOfLines={1}>
+                    {upload.details.title}
+                  </Text>
+                  {upload.status === 'failed' && (
+                    <TouchableOpacity onPress={() => retryUpload(upload.id)}>
+                      <Icons.refresh size={18} color="#4F46E5" />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={() => removeUpload(upload.id)}>
+                    <Icons.close size={18} color="#64748B" />
+                  </TouchableOpacity>
+                </View>
+                <Text
+                  style={[
+                    styles.uploadingText,
+                    upload.status === 'failed' && styles.uploadErrorText,
+                  ]}
+                >
+                  {getUploadStatusText(upload)}
+                </Text>
+                {upload.status !== 'completed' && (
+                  <View style={styles.progressBar}>
+                    <View
+                      style={[
+                        styles.progressFill,
+                        { width: `${upload.progress}%` },
+                        upload.status === 'failed' && styles.progressFillFailed,
+                      ]}
+                    />
+                  </View>
+                )}
+              </View>
+            ))}
           </View>
         )}
       </View>
@@ -537,6 +880,55 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  coverSection: {
+    marginTop: 16,
+  },
+  coverRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  coverPreview: {
+    width: 72,
+    height: 96,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#E2E8F0',
+  },
+  coverLoading: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  scrubberContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  scrubber: {
+    height: 56,
+    flexDirection: 'row',
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#E2E8F0',
+  },
+  scrubberFrames: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  scrubberMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 4,
+    marginLeft: -2,
+    borderRadius: 2,
+    backgroundColor: '#4F46E5',
+  },
+  scrubberHint: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 6,
+  },
   form: {
     gap: 16,
   },
@@ -568,6 +960,20 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E2E8F0',
   },
+  optimizeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  optimizeInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optimizeHint: {
+    fontSize: 12,
+    color: '#64748B',
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: '600',
@@ -639,14 +1045,64 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#64748B',
   },
-  uploadingContainer: {
+  uploadsSection: {
     marginTop: 24,
+  },
+  uploadItem: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    marginBottom: 12,
+  },
+  uploadItemHeader: {
+    flexDirection: 'row',
     alignItems: 'center',
+    gap: 12,
+  },
+  uploadItemTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
   },
   uploadingText: {
-    marginTop: 12,
-    fontSize: 16,
+    marginTop: 4,
+    fontSize: 14,
+    color: '#64748B',
+  },
+  uploadErrorText: {
+    color: '#EF4444',
+  },
+  draftsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  newDraftText: {
+    color: '#4F46E5',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  activeDraftItem: {
+    borderColor: '#4F46E5',
+  },
+  draftIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  draftInfo: {
+    flex: 1,
+  },
+  draftMeta: {
+    fontSize: 12,
     color: '#64748B',
+    marginTop: 2,
   },
   progressBar: {
     width: '100%',
@@ -661,4 +1117,20 @@ const styles = StyleSheet.create({
     backgroundColor: '#4F46E5',
     borderRadius: 2,
   },
-});
\ No newline at end of file
+  progressFillFailed: {
+    backgroundColor: '#EF4444',
+  },
+});
+
+// Kept apart from `styles`, whose web-only sizes widen every entry to a mix of
+// view, text and image styles that Image doesn't accept
+const imageStyles = StyleSheet.create({
+  coverImage: {
+    width: '100%',
+    height: '100%',
+  },
+  scrubberFrame: {
+    flex: 1,
+    height: '100%',
+  },
+});
@@ -12,14 +12,56 @@ import {
   ScrollView,
   Modal,
   TextInput,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Video, Audio } from 'expo-av';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { supabase } from '../../../lib/supabase';
 import { Icons } from '../../../components/Icons';
 import { useTheme } from '../../../lib/ThemeContext';
 import { Button } from '../../../components/Button';
+import { CommentSheet } from '../../../components/CommentSheet';
+import { fetchCommentCount } from '../../../lib/comments';
+import { extractHashtags, syncVideoTags } from '../../../lib/tags';
+import { FeedMode, FeedCursor, FeedVideo, fetchFeedPage } from '../../../lib/feed';
+import { hasReachedViewThreshold, recordView } from '../../../lib/views';
+import { shareVideo } from '../../../lib/share';
+import { useRealtimeVideoCounts } from '../../../lib/realtimeCounts';
+import {
+  useInteractions,
+  loadInteractions,
+  seedVideoCounts,
+  toggleLike,
+  toggleBookmark,
+} from '../../../lib/interactions';
+import {
+  PlayerController,
+  PooledPlayer,
+  getPooledIndexes,
+  usePlayerController,
+  loadMutedPreference,
+  saveMutedPreference,
+} from '../../../lib/playerPool';
+import { useSharedValue, withTiming, Easing } from 'react-native-reanimated';
+import { VideoGestureArea } from '../../../components/VideoGestureArea';
+import { VideoProgressBar } from '../../../components/VideoProgressBar';
+import {
+  VideoCursor,
+  VideoListSource,
+  VideoListEntry,
+  getVideoListKey,
+  parseVideoListParams,
+  fetchVideoPage,
+  fetchVideo,
+  readVideoListCache,
+  writeVideoListCache,
+  isVideoListFresh,
+  invalidateVideoLists,
+  getPlaybackUrl,
+  VideoVisibility,
+} from '../../../lib/videos';
+import { VisibilityPicker, getPublishAtError } from '../../../components/VisibilityPicker';
 import * as Location from 'expo-location';
 
 interface Video {
@@ -27,23 +69,26 @@ interface Video {
   title: string;
   description: string;
   video_url: string;
+  hls_url?: string | null;
+  thumbnail_url?: string | null;
   user_id: string;
   created_at: string;
   like_count: number;
   bookmark_count?: number;
+  comment_count?: number;
+  share_count?: number;
+  view_count?: number;
+  tags?: string[];
   address?: string;
   latitude?: number;
   longitude?: number;
+  visibility?: VideoVisibility;
+  publish_at?: string | null;
 }
 
 interface VideoUser {
   username: string;
-  avatar_url: string;
-}
-
-interface VideoInteraction {
-  isLiked: boolean;
-  isBookmarked: boolean;
+  avatar_url: string | null;
 }
 
 interface EditVideoData {
@@ -53,12 +98,12 @@ interface EditVideoData {
   address: string;
   latitude: number | null;
   longitude: number | null;
+  visibility: VideoVisibility;
+  publish_at: string | null;
 }
 
 const useVideoState = () => {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [isMuted, setIsMuted] = useState(false);
-  const videoRefs = useRef<{ [key: string]: any }>({});
 
   const handleViewableItemsChanged = useCallback(({ changed }: { changed: any[] }) => {
     if (changed && changed[0].isViewable) {
@@ -68,15 +113,12 @@ const useVideoState = () => {
 
   return {
     currentIndex,
-    isMuted,
-    videoRefs,
-    setIsMuted,
+    setCurrentIndex,
     handleViewableItemsChanged,
   };
 };
 
 const useInteractionState = () => {
-  const [interactions, setInteractions] = useState<{ [key: string]: VideoInteraction }>({});
   const [expandedDescriptions, setExpandedDescriptions] = useState<{ [key: string]: boolean }>({});
   const [bottomSheetVisible, setBottomSheetVisible] = useState(false);
   const [editModalVisible, setEditModalVisible] = useState(false);
@@ -84,10 +126,9 @@ const useInteractionState = () => {
   const [locationLoading, setLocationLoading] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [commentSheetVideoId, setCommentSheetVideoId] = useState<string | null>(null);
 
   return {
-    interactions,
-    setInteractions,
     expandedDescriptions,
     setExpandedDescriptions,
     bottomSheetVisible,
@@ -102,6 +143,8 @@ const useInteractionState = () => {
     setLocationError,
     saving,
     setSaving,
+    commentSheetVideoId,
+    setCommentSheetVideoId,
   };
 };
 
@@ -109,50 +152,182 @@ const { height: WINDOW_HEIGHT } = Dimensions.get('window');
 const TAB_BAR_HEIGHT = 49;
 const BOTTOM_INSET = 34;
 const DESCRIPTION_MAX_HEIGHT = 100;
+// Pages fetched while looking for the video the feed was opened at
+const MAX_SEEK_PAGES = 5;
+
+const LIST_TITLES: Record<VideoListSource['type'], string> = {
+  all: 'Videos',
+  located: 'Nearby',
+  user: 'Videos',
+  liked: 'Liked',
+  bookmarked: 'Saved',
+};
 
 // Define VideoPlayer component before using it
-function VideoPlayer({ video, isCurrentVideo }: { video: Video & { user: VideoUser }, isCurrentVideo: boolean }) {
-  const videoState = useVideoState();
+function VideoPlayer({ video, isCurrentVideo, controller, onViewed, onTap, onDoubleTap }: {
+  video: Video & { user: VideoUser },
+  isCurrentVideo: boolean,
+  controller: PlayerController,
+  onViewed?: (videoId: string) => void,
+  onTap: () => void,
+  onDoubleTap: (videoId: string) => void,
+}) {
+  const viewRecorded = useRef(false);
+  const videoRef = useRef<any>(null);
+  const pooledPlayer = useRef<PooledPlayer | null>(null);
+  const durationSeconds = useRef(0);
+  const progress = useSharedValue(0);
+  const scrubbing = useSharedValue(false);
+  // Set when the HLS stream fails to load, e.g. a playlist removed from storage
+  const [hlsFailed, setHlsFailed] = useState(false);
+  const source = hlsFailed ? video.video_url : getPlaybackUrl(video);
+
+  useEffect(() => {
+    // Web players can be driven before the video loads, native ones register
+    // from onLoad
+    if (Platform.OS === 'web' && videoRef.current) {
+      const element: HTMLVideoElement = videoRef.current;
+      register({
+        play: () => {
+          element.play().catch(error => console.warn('Error playing video:', error));
+        },
+        pause: () => element.pause(),
+        setMuted: muted => {
+          element.muted = muted;
+        },
+      });
+    }
+
+    return () => {
+      if (pooledPlayer.current) {
+        controller.unregister(video.id, pooledPlayer.current);
+        pooledPlayer.current = null;
+      }
+    };
+  }, [source]);
+
+  function register(player: PooledPlayer) {
+    pooledPlayer.current = player;
+    controller.register(video.id, player);
+  }
+
+  function handleLoad() {
+    const ref = videoRef.current;
+    if (!ref) return;
+
+    register({
+      play: () => {
+        ref.playAsync().catch((error: unknown) => console.warn('Error playing video:', error));
+      },
+      pause: () => {
+        ref.pauseAsync().catch((error: unknown) => console.warn('Error pausing video:', error));
+      },
+      setMuted: muted => {
+        ref.setIsMutedAsync(muted).catch((error: unknown) => console.warn('Error muting video:', error));
+      },
+    });
+  }
+
+  function handleError(error: unknown) {
+    if (source === video.video_url) {
+      console.error('Error playing video:', error);
+      return;
+    }
+    console.warn('Error playing HLS stream, falling back to MP4:', error);
+    setHlsFailed(true);
+  }
+
+  function handleProgress(positionSeconds: number, duration?: number | null) {
+    if (duration) {
+      durationSeconds.current = duration;
+      if (!scrubbing.value) {
+        const ratio = Math.min(1, positionSeconds / duration);
+        // Status updates arrive twice a second, so the bar eases between
+        // them, except when the video loops back to the start
+        progress.value = ratio < progress.value
+          ? ratio
+          : withTiming(ratio, { duration: 500, easing: Easing.linear });
+      }
+    }
+
+    if (!isCurrentVideo || viewRecorded.current) return;
+    if (!hasReachedViewThreshold(positionSeconds, duration)) return;
+
+    viewRecorded.current = true;
+    recordView(video.id).then(counted => {
+      if (counted) onViewed?.(video.id);
+    });
+  }
   
-  if (Platform.OS === 'web') {
-    return (
-      <video
-        ref={el => {
-          if (el) videoState.videoRefs.current[video.id] = el;
-        }}
-        src={video.video_url}
-        style={styles.video}
-        loop
-        playsInline
-        controls={false}
-        muted={videoState.isMuted}
-        autoPlay={isCurrentVideo}
-      />
-    );
+  function seek(ratio: number) {
+    const ref = videoRef.current;
+    if (!ref || !durationSeconds.current) return;
+
+    const position = ratio * durationSeconds.current;
+    if (Platform.OS === 'web') {
+      ref.currentTime = position;
+    } else {
+      ref.setPositionAsync(position * 1000).catch((error: unknown) => console.warn('Error seeking video:', error));
+    }
   }
 
-  return (
+  // Playback and mute are driven by the controller, so shouldPlay and
+  // isMuted are deliberately not passed to the native player
+  const player = Platform.OS === 'web' ? (
+    <video
+      ref={videoRef}
+      src={source}
+      style={styles.video}
+      loop
+      playsInline
+      preload="auto"
+      controls={false}
+      muted={controller.getState().muted}
+      onError={e => handleError(e.currentTarget.error)}
+      onTimeUpdate={e => handleProgress(e.currentTarget.currentTime, e.currentTarget.duration)}
+    />
+  ) : (
     <Video
-      ref={ref => {
-        if (ref) videoState.videoRefs.current[video.id] = ref;
-      }}
-      source={{ uri: video.video_url }}
+      ref={videoRef}
+      source={{ uri: source }}
       style={styles.video}
       resizeMode="cover"
-      shouldPlay={isCurrentVideo}
       isLooping
-      isMuted={videoState.isMuted}
       useNativeControls={false}
+      progressUpdateIntervalMillis={500}
+      onLoad={handleLoad}
+      onError={handleError}
+      onPlaybackStatusUpdate={status => {
+        if (status.isLoaded) {
+          handleProgress(
+            status.positionMillis / 1000,
+            status.durationMillis ? status.durationMillis / 1000 : null
+          );
+        }
+      }}
     />
   );
+
+  return (
+    <>
+      <VideoGestureArea onTap={onTap} onDoubleTap={() => onDoubleTap(video.id)}>
+        {player}
+      </VideoGestureArea>
+      {isCurrentVideo && (
+        <VideoProgressBar progress={progress} scrubbing={scrubbing} onSeek={seek} />
+      )}
+    </>
+  );
 }
 
 // Memoize video player component for better performance
 const MemoizedVideoPlayer = React.memo(VideoPlayer, (prevProps, nextProps) => {
   return (
     prevProps.isCurrentVideo === nextProps.isCurrentVideo &&
+    prevProps.controller === nextProps.controller &&
     prevProps.video.id === nextProps.video.id &&
-    prevProps.video.video_url === nextProps.video.video_url
+    prevProps.video.video_url === nextProps.video.video_url &&
+    prevProps.video.hls_url === nextProps.video.hls_url
   );
 });
 
@@ -163,15 +338,44 @@ export default function VideoScroll() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [feedMode, setFeedMode] = useState<FeedMode>('forYou');
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const flatListRef = useRef<FlatList>(null);
+  const feedRequestId = useRef(0);
+  const pendingScrollIndex = useRef<number | null>(null);
+
+  // When opened from a profile grid or the map, the feed scrolls through that
+  // list instead of the ranked feed, starting at the tapped video
+  const params = useLocalSearchParams<{ source?: string; userId?: string; videoId?: string }>();
+  const listSource = useMemo(
+    () => parseVideoListParams(params),
+    [params.source, params.userId]
+  );
+  const cacheKey = listSource ? getVideoListKey(listSource) : `feed:${feedMode}`;
 
   const videoState = useVideoState();
   const interactionState = useInteractionState();
+  const interactions = useInteractions();
+  const player = usePlayerController();
+  const pooledIndexes = getPooledIndexes(videoState.currentIndex, videos.length);
+
+  // Only the videos around the current one are on screen, so only their
+  // counters are kept live
+  useRealtimeVideoCounts(
+    [...pooledIndexes].map(index => videos[index].id),
+    (videoId, counts) => {
+      setVideos(prev =>
+        prev.map(video => (video.id === videoId ? { ...video, ...counts } : video))
+      );
+    }
+  );
 
   useEffect(() => {
     setupAudio();
-    loadVideos();
     getCurrentUser();
+    loadMutedPreference().then(muted => player.controller.setMuted(muted));
+
     return () => {
       Audio.setAudioModeAsync({
         playsInSilentModeIOS: false,
@@ -180,6 +384,19 @@ export default function VideoScroll() {
     };
   }, []);
 
+  useEffect(() => {
+    loadVideos();
+  }, [cacheKey, params.videoId]);
+
+  useEffect(() => {
+    const index = pendingScrollIndex.current;
+    if (loading || index === null || index >= videos.length) return;
+
+    pendingScrollIndex.current = null;
+    flatListRef.current?.scrollToIndex({ index, animated: false });
+    videoState.setCurrentIndex(index);
+  }, [loading, videos]);
+
   async function getCurrentUser() {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
@@ -202,240 +419,214 @@ export default function VideoScroll() {
   }
 
   useEffect(() => {
-    if (videos.length > 0) {
-      videos.forEach((video, index) => {
-        const videoRef = videoState.videoRefs.current[video.id];
-        if (videoRef) {
-          if (index === videoState.currentIndex) {
-            if (Platform.OS === 'web') {
-              videoRef.play().catch(() => {
-                console.log('Web playback error');
-              });
-            } else {
-              videoRef.playAsync?.().catch(() => {
-                console.log('Native playback error');
-              });
-            }
-          } else {
-            if (Platform.OS === 'web') {
-              videoRef.pause();
-            } else {
-              videoRef.pauseAsync?.().catch(() => {
-                console.log('Pause error');
-              });
-            }
-          }
-        }
-      });
-    }
+    player.controller.activate(videos[videoState.currentIndex]?.id ?? null);
   }, [videoState.currentIndex, videos]);
 
-  const handleLike = useCallback(async (videoId: string) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const isLiked = interactionState.interactions[videoId]?.isLiked;
-
-      if (isLiked) {
-        const { error } = await supabase
-          .from('video_likes')
-          .delete()
-          .eq('video_id', videoId)
-          .eq('user_id', user.id);
-
-        if (error) throw error;
-
-        setVideos(prev => 
-          prev.map(video => 
-            video.id === videoId 
-              ? { ...video, like_count: video.like_count - 1 }
-              : video
-          )
-        );
-      } else {
-        const { error } = await supabase
-          .from('video_likes')
-          .insert({ video_id: videoId, user_id: user.id });
-
-        if (error) throw error;
-
-        setVideos(prev => 
-          prev.map(video => 
-            video.id === videoId 
-              ? { ...video, like_count: video.like_count + 1 }
-              : video
-          )
-        );
-      }
+  // Tabs stay mounted, so the feed has to stop playing when it is left
+  useFocusEffect(
+    useCallback(() => {
+      player.controller.resume();
+      return () => player.controller.pause();
+    }, [])
+  );
 
-      interactionState.setInteractions(prev => ({
-        ...prev,
-        [videoId]: {
-          ...prev[videoId],
-          isLiked: !isLiked,
-        },
-      }));
+  const refreshCommentCount = useCallback(async (videoId: string) => {
+    try {
+      const commentCount = await fetchCommentCount(videoId);
+      setVideos(prev =>
+        prev.map(video =>
+          video.id === videoId
+            ? { ...video, comment_count: commentCount }
+            : video
+        )
+      );
     } catch (error) {
-      console.error('Error handling like:', error);
+      console.error('Error refreshing comment count:', error);
     }
-  }, [interactionState.interactions]);
+  }, []);
 
-  const handleBookmark = useCallback(async (videoId: string) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
 
-      const isBookmarked = interactionState.interactions[videoId]?.isBookmarked;
+  const handleVideoTap = useCallback(() => {
+    player.controller.togglePlayback();
+  }, []);
 
-      if (isBookmarked) {
-        const { error } = await supabase
-          .from('video_bookmarks')
-          .delete()
-          .eq('video_id', videoId)
-          .eq('user_id', user.id);
+  // Double tapping only ever likes, like other video apps
+  const handleVideoDoubleTap = useCallback((videoId: string) => {
+    toggleLike(videoId, true);
+  }, []);
 
-        if (error) throw error;
+  function toggleMute() {
+    const muted = !player.muted;
+    player.controller.setMuted(muted);
+    saveMutedPreference(muted);
+  }
 
-        setVideos(prev => 
-          prev.map(video => 
-            video.id === videoId 
-              ? { ...video, bookmark_count: (video.bookmark_count || 1) - 1 }
-              : video
-          )
-        );
-      } else {
-        const { error } = await supabase
-          .from('video_bookmarks')
-          .insert({ video_id: videoId, user_id: user.id });
-
-        if (error) throw error;
-
-        setVideos(prev => 
-          prev.map(video => 
-            video.id === videoId 
-              ? { ...video, bookmark_count: (video.bookmark_count || 0) + 1 }
-              : video
+  function navigateToProfile(userId: string) {
+    router.push(`/profile/${userId}`);
+  }
+
+  async function handleShare(video: { id: string; title: string }) {
+    try {
+      const shared = await shareVideo(video, currentUserId);
+      if (shared) {
+        setVideos(prev =>
+          prev.map(v =>
+            v.id === video.id
+              ? { ...v, share_count: (v.share_count || 0) + 1 }
+              : v
           )
         );
       }
-
-      interactionState.setInteractions(prev => ({
-        ...prev,
-        [videoId]: {
-          ...prev[videoId],
-          isBookmarked: !isBookmarked,
-        },
-      }));
     } catch (error) {
-      console.error('Error handling bookmark:', error);
+      console.error('Error sharing video:', error);
+      Alert.alert('Error', 'Failed to share video');
     }
-  }, [interactionState.interactions]);
+  }
 
-  function navigateToProfile(userId: string) {
-    router.push(`/profile/${userId}`);
+  function handleViewed(videoId: string) {
+    setVideos(prev =>
+      prev.map(video =>
+        video.id === videoId
+          ? { ...video, view_count: (video.view_count || 0) + 1 }
+          : video
+      )
+    );
+  }
+
+  function navigateToTag(tag: string) {
+    router.push(`/tag/${encodeURIComponent(tag)}`);
   }
 
   async function checkUserInteractions(userId: string, videoIds: string[]) {
     try {
-      const { data: likedData, error: likedError } = await supabase
-        .from('video_likes')
-        .select('video_id')
-        .eq('user_id', userId)
-        .in('video_id', videoIds);
-
-      if (likedError) throw likedError;
-      const likedVideos = new Set(likedData.map(like => like.video_id));
-      
-      const { data: bookmarkedData, error: bookmarkedError } = await supabase
-        .from('video_bookmarks')
-        .select('video_id')
-        .eq('user_id', userId)
-        .in('video_id', videoIds);
-
-      if (bookmarkedError) throw bookmarkedError;
-      const bookmarkedVideos = new Set(bookmarkedData.map(bookmark => bookmark.video_id));
-      
-      const newInteractions = {};
-      videoIds.forEach(videoId => {
-        newInteractions[videoId] = {
-          isLiked: likedVideos.has(videoId),
-          isBookmarked: bookmarkedVideos.has(videoId),
-        };
-      });
-
-      interactionState.setInteractions(newInteractions);
+      await loadInteractions(userId, videoIds);
     } catch (error) {
       console.error('Error checking user interactions:', error);
     }
   }
 
-  async function ensureProfile(userId: string) {
-    try {
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('username, avatar_url')
-        .eq('id', userId)
-        .single();
-
-      if (profileError) {
-        if (profileError.code === 'PGRST116') {
-          const { data: newProfile, error: insertError } = await supabase
-            .from('profiles')
-            .insert([{ 
-              id: userId,
-              username: `user_${userId.slice(0, 8)}`,
-              avatar_url: null
-            }])
-            .select('username, avatar_url')
-            .single();
-
-          if (insertError) throw insertError;
-          return newProfile;
-        }
-        throw profileError;
-      }
-
-      return profile;
-    } catch (error) {
-      console.warn('Error ensuring profile:', error);
-      return { username: `user_${userId.slice(0, 8)}`, avatar_url: null };
-    }
-  }
+  async function loadVideos(force = false) {
+    // Ignore responses for a feed mode the user already switched away from
+    const requestId = ++feedRequestId.current;
 
-  async function loadVideos() {
     try {
       setError(null);
       
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data: videosData, error: videosError } = await supabase
-        .from('videos')
-        .select('*, like_count, bookmark_count')
-        .order('created_at', { ascending: false });
-
-      if (videosError) throw videosError;
-
-      const videosWithUsers = await Promise.all(
-        videosData.map(async (video) => {
-          const userData = await ensureProfile(video.user_id);
-          return {
-            ...video,
-            user: userData
-          };
-        })
-      );
+      let entry = readVideoListCache<FeedCursor>(cacheKey);
+      if (force || !isVideoListFresh(entry)) {
+        setLoading(true);
+        const page = listSource
+          ? await fetchVideoPage(listSource)
+          : await fetchFeedPage(feedMode);
+        entry = { ...page, fetchedAt: Date.now() };
+        writeVideoListCache(cacheKey, entry);
+      }
+      if (listSource && params.videoId && entry) {
+        entry = await seekToVideo(listSource, params.videoId, entry);
+      }
+      if (requestId !== feedRequestId.current || !entry) return;
 
-      setVideos(videosWithUsers);
+      seedVideoCounts(entry.videos);
+      setVideos(entry.videos);
+      setNextCursor(entry.nextCursor);
+      if (pendingScrollIndex.current === null) {
+        flatListRef.current?.scrollToOffset({ offset: 0, animated: false });
+      }
 
-      await checkUserInteractions(user.id, videosData.map(v => v.id));
+      await checkUserInteractions(user.id, entry.videos.map(v => v.id));
 
     } catch (error) {
+      if (requestId !== feedRequestId.current) return;
       console.error('Error loading videos:', error);
       setError('Failed to load videos');
     } finally {
-      setLoading(false);
+      if (requestId === feedRequestId.current) {
+        setLoading(false);
+      }
+    }
+  }
+
+  // Pages through the list until it contains the video the feed was opened at
+  // and marks its index to scroll to once the list is rendered
+  async function seekToVideo(
+    source: VideoListSource,
+    videoId: string,
+    entry: VideoListEntry<FeedCursor>
+  ): Promise<VideoListEntry<FeedCursor>> {
+    let next = entry;
+    let index = next.videos.findIndex(video => video.id === videoId);
+
+    for (let pages = 0; index === -1 && next.nextCursor && pages < MAX_SEEK_PAGES; pages++) {
+      const page = await fetchVideoPage(source, next.nextCursor as VideoCursor);
+      const seen = new Set(next.videos.map(video => video.id));
+      next = {
+        videos: [...next.videos, ...page.videos.filter(video => !seen.has(video.id))],
+        nextCursor: page.nextCursor,
+        fetchedAt: next.fetchedAt,
+      };
+      index = next.videos.findIndex(video => video.id === videoId);
+    }
+
+    if (next !== entry) {
+      writeVideoListCache(cacheKey, next);
+    }
+
+    if (index === -1) {
+      // Too deep in the list, show it first and continue with the list
+      const video = await fetchVideo(videoId);
+      if (video) {
+        next = { ...next, videos: [video, ...next.videos] };
+        index = 0;
+      }
+    }
+
+    pendingScrollIndex.current = Math.max(index, 0);
+    return next;
+  }
+
+  function exitListContext() {
+    router.setParams({ source: undefined, userId: undefined, videoId: undefined });
+    if (router.canGoBack()) {
+      router.back();
+    }
+  }
+
+  async function loadMoreVideos() {
+    if (!nextCursor || loading || loadingMore) return;
+
+    const requestId = feedRequestId.current;
+
+    try {
+      setLoadingMore(true);
+
+      const page = listSource
+        ? await fetchVideoPage(listSource, nextCursor as VideoCursor)
+        : await fetchFeedPage(feedMode, nextCursor);
+      if (requestId !== feedRequestId.current) return;
+
+      const cached = readVideoListCache<FeedCursor>(cacheKey);
+      const seen = new Set(videos.map(video => video.id));
+      const merged = [...videos, ...page.videos.filter(video => !seen.has(video.id))];
+
+      seedVideoCounts(page.videos);
+      setVideos(merged);
+      setNextCursor(page.nextCursor);
+      writeVideoListCache<FeedCursor>(cacheKey, {
+        videos: merged as FeedVideo[],
+        nextCursor: page.nextCursor,
+        fetchedAt: cached?.fetchedAt ?? Date.now(),
+      });
+
+      if (currentUserId) {
+        await checkUserInteractions(currentUserId, page.videos.map(v => v.id));
+      }
+    } catch (error) {
+      console.error('Error loading more videos:', error);
+    } finally {
+      setLoadingMore(false);
     }
   }
 
@@ -465,6 +656,11 @@ export default function VideoScroll() {
       address: video.address || '',
       latitude: video.latitude || null,
       longitude: video.longitude || null,
+      visibility: video.visibility || 'public',
+      // A publish time that has already passed no longer needs editing
+      publish_at: video.publish_at && new Date(video.publish_at).getTime() > Date.now()
+        ? video.publish_at
+        : null,
     });
   }
 
@@ -543,6 +739,12 @@ export default function VideoScroll() {
 
   async function saveVideoChanges() {
     if (!interactionState.editVideoData) return;
+
+    const scheduleError = getPublishAtError(interactionState.editVideoData.publish_at);
+    if (scheduleError) {
+      interactionState.setLocationError(scheduleError);
+      return;
+    }
     
     try {
       interactionState.setSaving(true);
@@ -555,11 +757,21 @@ export default function VideoScroll() {
           address: interactionState.editVideoData.address,
           latitude: interactionState.editVideoData.latitude,
           longitude: interactionState.editVideoData.longitude,
+          visibility: interactionState.editVideoData.visibility,
+          publish_at: interactionState.editVideoData.publish_at,
         })
         .eq('id', interactionState.editVideoData.id);
 
       if (error) throw error;
 
+      try {
+        await syncVideoTags(interactionState.editVideoData.id, interactionState.editVideoData.description);
+      } catch (tagError) {
+        console.warn('Error saving video tags:', tagError);
+      }
+
+      invalidateVideoLists();
+
       setVideos(prev => 
         prev.map(video => 
           video.id === interactionState.editVideoData!.id 
@@ -567,9 +779,12 @@ export default function VideoScroll() {
                 ...video, 
                 title: interactionState.editVideoData!.title,
                 description: interactionState.editVideoData!.description,
+                tags: extractHashtags(interactionState.editVideoData!.description),
                 address: interactionState.editVideoData!.address,
                 latitude: interactionState.editVideoData!.latitude,
                 longitude: interactionState.editVideoData!.longitude,
+                visibility: interactionState.editVideoData!.visibility,
+                publish_at: interactionState.editVideoData!.publish_at,
               }
             : video
         )
@@ -584,40 +799,6 @@ export default function VideoScroll() {
     }
   }
 
-  function VideoPlayer({ video, isCurrentVideo }: { video: Video & { user: VideoUser }, isCurrentVideo: boolean }) {
-    if (Platform.OS === 'web') {
-      return (
-        <video
-          ref={el => {
-            if (el) videoState.videoRefs.current[video.id] = el;
-          }}
-          src={video.video_url}
-          style={styles.video}
-          loop
-          playsInline
-          controls={false}
-          muted={videoState.isMuted}
-          autoPlay={isCurrentVideo}
-        />
-      );
-    }
-
-    return (
-      <Video
-        ref={ref => {
-          if (ref) videoState.videoRefs.current[video.id] = ref;
-        }}
-        source={{ uri: video.video_url }}
-        style={styles.video}
-        resizeMode="cover"
-        shouldPlay={isCurrentVideo}
-        isLooping
-        isMuted={videoState.isMuted}
-        useNativeControls={false}
-      />
-    );
-  }
-
   if (loading) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
@@ -630,7 +811,7 @@ export default function VideoScroll() {
     return (
       <View style={[styles.errorContainer, { backgroundColor: colors.background }]}>
         <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
-        <TouchableOpacity onPress={loadVideos} style={styles.retryButton}>
+        <TouchableOpacity onPress={() => loadVideos(true)} style={styles.retryButton}>
           <Text style={styles.retryText}>Retry</Text>
         </TouchableOpacity>
       </View>
@@ -643,28 +824,87 @@ export default function VideoScroll() {
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {listSource ? (
+        <View style={[styles.feedModes, { top: insets.top + 8 }]}>
+          <TouchableOpacity style={styles.feedBackButton} onPress={exitListContext}>
+            <Icons.back size={24} color="white" />
+          </TouchableOpacity>
+          <View style={styles.feedModeButton}>
+            <Text style={[styles.feedModeText, styles.activeFeedModeText]}>
+              {LIST_TITLES[listSource.type]}
+            </Text>
+          </View>
+        </View>
+      ) : (
+        <View style={[styles.feedModes, { top: insets.top + 8 }]}>
+          {([
+            { id: 'following', label: 'Following' },
+            { id: 'forYou', label: 'For You' },
+          ] as { id: FeedMode; label: string }[]).map(mode => (
+            <TouchableOpacity
+              key={mode.id}
+              style={styles.feedModeButton}
+              onPress={() => setFeedMode(mode.id)}
+            >
+              <Text
+                style={[
+                  styles.feedModeText,
+                  feedMode === mode.id && styles.activeFeedModeText,
+                ]}
+              >
+                {mode.label}
+              </Text>
+              {feedMode === mode.id && <View style={styles.feedModeIndicator} />}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       <FlatList
         removeClippedSubviews={true}
         maxToRenderPerBatch={3}
-        windowSize={3}
+        windowSize={5}
         ref={flatListRef}
         data={videos}
         keyExtractor={item => item.id}
-        renderItem={({ item }) => (
+        renderItem={({ item, index }) => (
           <View style={[styles.videoContainer, { height: adjustedHeight }]}>
-            <MemoizedVideoPlayer 
-              video={item} 
-              isCurrentVideo={videoState.currentIndex === videos.indexOf(item)} 
-            />
+            {pooledIndexes.has(index) ? (
+              <MemoizedVideoPlayer 
+                video={item} 
+                isCurrentVideo={videoState.currentIndex === index} 
+                controller={player.controller}
+                onViewed={handleViewed}
+                onTap={handleVideoTap}
+                onDoubleTap={handleVideoDoubleTap}
+              />
+            ) : item.thumbnail_url ? (
+              // Items without a pooled player only show their cover
+              <Image source={{ uri: item.thumbnail_url }} style={styles.video} resizeMode="cover" />
+            ) : null}
+
+            {player.paused && videoState.currentIndex === index && (
+              <View style={styles.pausedIndicator} pointerEvents="none">
+                <Icons.play size={64} color="white" fill="white" />
+              </View>
+            )}
             
-            <View style={styles.overlay}>
-              <View style={styles.videoInfo}>
+            {/* Taps that miss the controls fall through to the video */}
+            <View style={styles.overlay} pointerEvents="box-none">
+              <View style={styles.videoInfo} pointerEvents="box-none">
                 <TouchableOpacity 
                   onPress={() => navigateToProfile(item.user_id)}
                 >
                   <Text style={styles.username}>@{item.user.username}</Text>
                 </TouchableOpacity>
 
+                <View style={styles.viewCount}>
+                  <Icons.eye size={14} color="white" />
+                  <Text style={styles.viewCountText}>
+                    {formatNumber(item.view_count || 0)} views
+                  </Text>
+                </View>
+
                 <ScrollView 
                   style={[
                     styles.descriptionContainer,
@@ -676,6 +916,20 @@ export default function VideoScroll() {
                     {item.description || item.title || 'No description'}
                   </Text>
                   
+                  {item.tags && item.tags.length > 0 && (
+                    <View style={styles.tagsContainer}>
+                      {item.tags.map((tag: string) => (
+                        <TouchableOpacity
+                          key={tag}
+                          style={styles.tagChip}
+                          onPress={() => navigateToTag(tag)}
+                        >
+                          <Text style={styles.tagChipText}>#{tag}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+
                   {item.address && (
                     <View style={styles.locationInfo}>
                       <Icons.mapPin size={14} color="white" style={styles.locationIcon} />
@@ -716,29 +970,55 @@ export default function VideoScroll() {
 
                 <TouchableOpacity 
                   style={styles.actionButton}
-                  onPress={() => handleLike(item.id)}
+                  onPress={() => toggleLike(item.id)}
                 >
                   <Icons.heart 
                     size={32} 
-                    color={interactionState.interactions[item.id]?.isLiked ? "#EF4444" : "white"}
-                    fill={interactionState.interactions[item.id]?.isLiked ? "#EF4444" : "transparent"}
+                    color={interactions[item.id]?.isLiked ? "#EF4444" : "white"}
+                    fill={interactions[item.id]?.isLiked ? "#EF4444" : "transparent"}
                   />
                   <Text style={styles.actionText}>
-                    {formatNumber(item.like_count)}
+                    {formatNumber(interactions[item.id]?.likeCount ?? item.like_count)}
                   </Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity 
                   style={styles.actionButton}
-                  onPress={() => handleBookmark(item.id)}
+                  onPress={() => toggleBookmark(item.id)}
                 >
                   <Icons.bookmark 
                     size={32} 
-                    color={interactionState.interactions[item.id]?.isBookmarked ? "#4F46E5" : "white"}
-                    fill={interactionState.interactions[item.id]?.isBookmarked ? "#4F46E5" : "transparent"}
+                    color={interactions[item.id]?.isBookmarked ? "#4F46E5" : "white"}
+                    fill={interactions[item.id]?.isBookmarked ? "#4F46E5" : "transparent"}
+                  />
+                  <Text style={styles.actionText}>
+                    {formatNumber(interactions[item.id]?.bookmarkCount ?? item.bookmark_count ?? 0)}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity 
+                  style={styles.actionButton}
+                  onPress={() => interactionState.setCommentSheetVideoId(item.id)}
+                >
+                  <Icons.comment 
+                    size={32} 
+                    color="white"
                   />
                   <Text style={styles.actionText}>
-                    {formatNumber(item.bookmark_count || 0)}
+                    {formatNumber(item.comment_count || 0)}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity 
+                  style={styles.actionButton}
+                  onPress={() => handleShare(item)}
+                >
+                  <Icons.share 
+                    size={32} 
+                    color="white"
+                  />
+                  <Text style={styles.actionText}>
+                    {item.share_count ? formatNumber(item.share_count) : 'Share'}
                   </Text>
                 </TouchableOpacity>
 
@@ -757,14 +1037,13 @@ export default function VideoScroll() {
 
                 <TouchableOpacity 
                   style={styles.actionButton}
-                  onPress={() => videoState.setIsMuted(!videoState.isMuted)}
+                  onPress={toggleMute}
                 >
-                  <Icons.volume2 
-                    size={32} 
-                    color="white"
-                    strokeWidth={1.5}
-                    style={videoState.isMuted && styles.mutedIcon}
-                  />
+                  {player.muted ? (
+                    <Icons.volumeX size={32} color="white" strokeWidth={1.5} />
+                  ) : (
+                    <Icons.volume2 size={32} color="white" strokeWidth={1.5} />
+                  )}
                 </TouchableOpacity>
               </View>
             </View>
@@ -779,6 +1058,31 @@ export default function VideoScroll() {
         viewabilityConfig={{
           itemVisiblePercentThreshold: 50
         }}
+        getItemLayout={(_, index) => ({
+          length: adjustedHeight,
+          offset: adjustedHeight * index,
+          index,
+        })}
+        onEndReached={loadMoreVideos}
+        onEndReachedThreshold={2}
+        ListEmptyComponent={
+          <View style={[styles.emptyFeed, { height: adjustedHeight }]}>
+            <Icons.video size={48} color={colors.subtext} />
+            <Text style={[styles.emptyFeedText, { color: colors.subtext }]}>
+              {!listSource && feedMode === 'following'
+                ? 'Follow creators to see their videos here'
+                : 'No videos yet'}
+            </Text>
+          </View>
+        }
+      />
+
+      <CommentSheet
+        videoId={interactionState.commentSheetVideoId}
+        visible={!!interactionState.commentSheetVideoId}
+        currentUserId={currentUserId}
+        onClose={() => interactionState.setCommentSheetVideoId(null)}
+        onCommentsChanged={refreshCommentCount}
       />
 
       {/* Bottom Sheet */}
@@ -966,6 +1270,17 @@ export default function VideoScroll() {
                 )}
               </View>
 
+              {interactionState.editVideoData && (
+                <VisibilityPicker
+                  key={interactionState.editVideoData.id}
+                  visibility={interactionState.editVideoData.visibility}
+                  onVisibilityChange={(visibility) => interactionState.setEditVideoData(prev => ({ ...prev!, visibility }))}
+                  publishAt={interactionState.editVideoData.publish_at}
+                  onPublishAtChange={(publishAt) => interactionState.setEditVideoData(prev => ({ ...prev!, publish_at: publishAt }))}
+                  disabled={interactionState.saving}
+                />
+              )}
+
               <TouchableOpacity
                 style={[
                   styles.saveButton,
@@ -1038,6 +1353,52 @@ const styles = StyleSheet.create({
     width: '100%',
     position: 'relative',
   },
+  feedModes: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    zIndex: 10,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+  },
+  feedModeButton: {
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  feedBackButton: {
+    position: 'absolute',
+    left: 16,
+    padding: 4,
+  },
+  feedModeText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 16,
+    fontWeight: '600',
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 3,
+  },
+  activeFeedModeText: {
+    color: 'white',
+  },
+  feedModeIndicator: {
+    width: 24,
+    height: 2,
+    borderRadius: 1,
+    backgroundColor: 'white',
+    marginTop: 4,
+  },
+  emptyFeed: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyFeedText: {
+    marginTop: 12,
+    fontSize: 16,
+    textAlign: 'center',
+  },
   video: {
     width: '100%',
     height: '100%',
@@ -1063,6 +1424,19 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 3,
   },
+  viewCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  viewCountText: {
+    color: 'white',
+    fontSize: 12,
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 3,
+  },
   descriptionContainer: {
     marginBottom: 8,
   },
@@ -1074,6 +1448,23 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 3,
   },
+  tagsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  tagChip: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  tagChipText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   locationInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1150,8 +1541,11 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 3,
   },
-  mutedIcon: {
-    opacity: 0.5,
+  pausedIndicator: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    opacity: 0.8,
   },
   modalOverlay: {
     flex: 1,
@@ -1,10 +1,13 @@
 import { Redirect, Stack } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
+import { resumeUploads } from '../../lib/uploads';
+import { startOnlinePresence } from '../../lib/chatRealtime';
 
 export default function AppLayout() {
   const [session, setSession] = useState(null);
   const [loading, setLoading] = useState(true);
+  const signedIn = !!session;
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -17,6 +20,20 @@ export default function AppLayout() {
     });
   }, []);
 
+  // Continue uploads that were queued before the app was closed
+  useEffect(() => {
+    if (signedIn) {
+      return resumeUploads();
+    }
+  }, [signedIn]);
+
+  // Let others see that the user is online, e.g. in their chats
+  useEffect(() => {
+    if (signedIn) {
+      return startOnlinePresence();
+    }
+  }, [signedIn]);
+
   if (loading) {
     return null;
   }
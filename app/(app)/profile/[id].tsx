@@ -16,6 +16,8 @@ import { Video } from 'expo-av';
 import { supabase } from '../../../lib/supabase';
 import { Icons } from '../../../components/Icons';
 import { useTheme } from '../../../lib/ThemeContext';
+import { VideoWithProfile, VideoListSource, useVideoList, countVideos, getVideoListParams } from '../../../lib/videos';
+import { useRealtimeVideoCounts, useViewableIds } from '../../../lib/realtimeCounts';
 
 interface Profile {
   id: string;
@@ -26,16 +28,6 @@ interface Profile {
   following_count?: number;
 }
 
-interface VideoItem {
-  id: string;
-  title: string;
-  description: string;
-  video_url: string;
-  created_at: string;
-  like_count: number;
-  bookmark_count?: number;
-}
-
 const { width } = Dimensions.get('window');
 const COLUMN_COUNT = 3;
 const SPACING = 1;
@@ -47,9 +39,6 @@ export default function UserProfile() {
   const { id } = useLocalSearchParams();
   const { colors, isDark } = useTheme();
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [videos, setVideos] = useState<VideoItem[]>([]);
-  const [likedVideos, setLikedVideos] = useState<VideoItem[]>([]);
-  const [bookmarkedVideos, setBookmarkedVideos] = useState<VideoItem[]>([]);
   const [activeTab, setActiveTab] = useState<TabType>('videos');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,6 +54,14 @@ export default function UserProfile() {
   const [isFollowing, setIsFollowing] = useState(false);
   const [followLoading, setFollowLoading] = useState(false);
   const videoRefs = useRef<{ [key: string]: any }>({});
+  const listSource: VideoListSource | null = id ? {
+    type: activeTab === 'likes' ? 'liked' : activeTab === 'bookmarks' ? 'bookmarked' : 'user',
+    userId: id as string,
+  } : null;
+  const videoList = useVideoList(listSource);
+  // Counters of the thumbnails on screen update live
+  const viewableVideos = useViewableIds();
+  useRealtimeVideoCounts(viewableVideos.ids, videoList.updateVideo);
 
   useEffect(() => {
     loadProfile();
@@ -119,39 +116,18 @@ export default function UserProfile() {
         following: profile.following_count || 0
       }));
 
-      // Fetch user's videos
-      const { data: videos, error: videosError } = await supabase
-        .from('videos')
-        .select('*')
-        .eq('user_id', id)
-        .order('created_at', { ascending: false });
-
-      if (videosError) throw videosError;
-      setVideos(videos);
-      setStats(prev => ({ ...prev, videos: videos.length }));
+      const [videoCount, likeCount, bookmarkCount] = await Promise.all([
+        countVideos({ type: 'user', userId: id as string }),
+        countVideos({ type: 'liked', userId: id as string }),
+        countVideos({ type: 'bookmarked', userId: id as string }),
+      ]);
 
-      // Fetch liked videos
-      const { data: likedVideos, error: likedError } = await supabase
-        .from('video_likes')
-        .select('videos(*)')
-        .eq('user_id', id)
-        .order('created_at', { ascending: false });
-
-      if (likedError) throw likedError;
-      const likedVideosList = likedVideos.map(like => like.videos).filter(Boolean);
-      setLikedVideos(likedVideosList);
-      setStats(prev => ({ ...prev, likes: likedVideosList.length }));
-
-      // Fetch bookmarked videos
-      const { data: bookmarkedVideos, error: bookmarkedError } = await supabase
-        .from('video_bookmarks')
-        .select('videos(*)')
-        .eq('user_id', id)
-        .order('created_at', { ascending: false });
-
-      if (bookmarkedError) throw bookmarkedError;
-      setBookmarkedVideos(bookmarkedVideos.map(bookmark => bookmark.videos).filter(Boolean));
-      setStats(prev => ({ ...prev, bookmarks: bookmarkedVideos.length }));
+      setStats(prev => ({
+        ...prev,
+        videos: videoCount,
+        likes: likeCount,
+        bookmarks: bookmarkCount,
+      }));
 
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -176,7 +152,7 @@ export default function UserProfile() {
     });
   }
 
-  function VideoPlayer({ video, isCurrentVideo }: { video: VideoItem, isCurrentVideo: boolean }) {
+  function VideoPlayer({ video, isCurrentVideo }: { video: VideoWithProfile, isCurrentVideo: boolean }) {
     if (Platform.OS === 'web') {
       return (
         <video
@@ -210,8 +186,12 @@ export default function UserProfile() {
     );
   }
 
-  function navigateToVideo(videoId: string) {
-    router.push('/videoscroll');
+  function openInFeed(videoId: string) {
+    if (!listSource) return;
+    router.push({
+      pathname: '/videoscroll',
+      params: { ...getVideoListParams(listSource), videoId },
+    });
   }
 
   async function handleFollow() {
@@ -307,20 +287,17 @@ export default function UserProfile() {
     );
   }
 
-  let displayVideos;
+  const displayVideos = videoList.videos;
   let emptyStateMessage;
   
   switch (activeTab) {
     case 'likes':
-      displayVideos = likedVideos;
       emptyStateMessage = 'No liked videos';
       break;
     case 'bookmarks':
-      displayVideos = bookmarkedVideos;
       emptyStateMessage = 'No saved videos';
       break;
     default:
-      displayVideos = videos;
       emptyStateMessage = 'No videos yet';
   }
   
@@ -476,15 +453,20 @@ export default function UserProfile() {
         <FlatList
           data={displayVideos}
           numColumns={COLUMN_COUNT}
+          onViewableItemsChanged={viewableVideos.onViewableItemsChanged}
           keyExtractor={item => item.id}
           contentContainerStyle={styles.videoGrid}
+          onEndReached={videoList.loadMore}
+          onEndReachedThreshold={0.5}
+          onRefresh={videoList.refresh}
+          refreshing={videoList.refreshing}
           renderItem={({ item }) => (
             <TouchableOpacity
               style={styles.videoItem}
-              onPress={() => navigateToVideo(item.id)}
+              onPress={() => openInFeed(item.id)}
             >
               <Image
-                source={{ uri: `https://picsum.photos/seed/${item.id}/300/400` }}
+                source={{ uri: item.thumbnail_url || `https://picsum.photos/seed/${item.id}/300/400` }}
                 style={styles.videoThumbnail}
               />
               <View style={[styles.videoOverlay, { backgroundColor: colors.overlay }]}>
@@ -507,13 +489,24 @@ export default function UserProfile() {
               </View>
             </TouchableOpacity>
           )}
+          ListFooterComponent={
+            videoList.loadingMore ? (
+              <ActivityIndicator style={styles.footerLoader} size="small" color={colors.primary} />
+            ) : null
+          }
           ListEmptyComponent={
-            <View style={styles.emptyState}>
-              <Icons.video size={48} color={colors.subtext} />
-              <Text style={[styles.emptyStateText, { color: colors.subtext }]}>
-                {emptyStateMessage}
-              </Text>
-            </View>
+            videoList.loading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="large" color={colors.primary} />
+              </View>
+            ) : (
+              <View style={styles.emptyState}>
+                <Icons.video size={48} color={colors.subtext} />
+                <Text style={[styles.emptyStateText, { color: colors.subtext }]}>
+                  {emptyStateMessage}
+                </Text>
+              </View>
+            )
           }
         />
       </View>
@@ -682,6 +675,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   emptyState: {
     padding: 40,
     alignItems: 'center',
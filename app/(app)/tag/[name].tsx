@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import { useLocalSearchParams, Stack, router } from 'expo-router';
+import { Icons } from '../../../components/Icons';
+import { useTheme } from '../../../lib/ThemeContext';
+import {
+  Tag,
+  TagVideo,
+  TAG_VIDEOS_PAGE_SIZE,
+  fetchTag,
+  fetchTagVideos,
+} from '../../../lib/tags';
+
+const { width } = Dimensions.get('window');
+const COLUMN_COUNT = 3;
+const SPACING = 1;
+const ITEM_WIDTH = (width - (COLUMN_COUNT + 1) * SPACING) / COLUMN_COUNT;
+
+export default function TagScreen() {
+  const { name } = useLocalSearchParams<{ name: string }>();
+  const { colors } = useTheme();
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [videos, setVideos] = useState<TagVideo[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tagName = decodeURIComponent(String(name || '')).replace(/^#/, '').toLowerCase();
+
+  useEffect(() => {
+    loadTag();
+  }, [tagName]);
+
+  async function loadTag() {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [tagData, videosData] = await Promise.all([
+        fetchTag(tagName),
+        fetchTagVideos(tagName),
+      ]);
+
+      setTag(tagData);
+      setVideos(videosData);
+      setHasMore(videosData.length === TAG_VIDEOS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading tag:', error);
+      setError('Failed to load tag');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMore() {
+    if (!hasMore || loading || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchTagVideos(tagName, videos.length);
+      setVideos(prev => [...prev, ...page]);
+      setHasMore(page.length === TAG_VIDEOS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more tag videos:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function formatNumber(num: number): string {
+    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return num.toString();
+  }
+
+  function navigateToVideo(videoId: string) {
+    router.push(`/video/${videoId}`);
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={[styles.errorContainer, { backgroundColor: colors.background }]}>
+        <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={loadTag}>
+          <Text style={styles.backButtonText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const videoCount = tag?.video_count || 0;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerTitle: `#${tagName}`,
+          headerShown: true,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={styles.headerButton}
+            >
+              <Icons.back size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { backgroundColor: colors.card }]}>
+          <View style={[styles.tagIcon, { backgroundColor: colors.background }]}>
+            <Text style={[styles.tagIconText, { color: colors.primary }]}>#</Text>
+          </View>
+          <View>
+            <Text style={[styles.tagName, { color: colors.text }]}>#{tagName}</Text>
+            <Text style={[styles.tagCount, { color: colors.subtext }]}>
+              {formatNumber(videoCount)} {videoCount === 1 ? 'video' : 'videos'}
+            </Text>
+          </View>
+        </View>
+
+        <FlatList
+          data={videos}
+          numColumns={COLUMN_COUNT}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.videoGrid}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={styles.videoItem}
+              onPress={() => navigateToVideo(item.id)}
+            >
+              <Image
+                source={{ uri: item.thumbnail_url || `https://picsum.photos/seed/${item.id}/300/400` }}
+                style={styles.videoThumbnail}
+              />
+              <View style={[styles.videoOverlay, { backgroundColor: colors.overlay }]}>
+                <View style={styles.videoStat}>
+                  <Icons.heart size={16} color="white" />
+                  <Text style={styles.videoStatText}>
+                    {formatNumber(item.like_count || 0)}
+                  </Text>
+                </View>
+              </View>
+            </TouchableOpacity>
+          )}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator style={styles.footerLoader} size="small" color={colors.primary} />
+            ) : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Icons.video size={48} color={colors.subtext} />
+              <Text style={[styles.emptyStateText, { color: colors.subtext }]}>
+                No videos with this tag yet
+              </Text>
+            </View>
+          }
+        />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    backgroundColor: '#4F46E5',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  tagIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  tagIconText: {
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  tagName: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  tagCount: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  videoGrid: {
+    padding: SPACING,
+  },
+  videoItem: {
+    width: ITEM_WIDTH,
+    aspectRatio: 3/4,
+    margin: SPACING,
+    position: 'relative',
+  },
+  videoThumbnail: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 8,
+  },
+  videoOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 8,
+    padding: 8,
+    justifyContent: 'flex-end',
+  },
+  videoStat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  videoStatText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyStateText: {
+    marginTop: 12,
+    fontSize: 16,
+  },
+});
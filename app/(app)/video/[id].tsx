@@ -0,0 +1,615 @@
+import { useState, useEffect, useRef } from 'react';
+import { useEvent } from 'expo';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Alert,
+  GestureResponderEvent,
+} from 'react-native';
+import { useLocalSearchParams, router, Stack } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { supabase } from '../../../lib/supabase';
+import { Icons } from '../../../components/Icons';
+import { useTheme } from '../../../lib/ThemeContext';
+import { VideoWithProfile, fetchVideo, fetchVideoPage, getPlaybackUrl } from '../../../lib/videos';
+import { shareVideo } from '../../../lib/share';
+import { hasReachedViewThreshold, recordView } from '../../../lib/views';
+
+const MORE_VIDEOS_COUNT = 6;
+
+export default function VideoScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { colors, isDark } = useTheme();
+  const [video, setVideo] = useState<VideoWithProfile | null>(null);
+  const [moreVideos, setMoreVideos] = useState<VideoWithProfile[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [progressWidth, setProgressWidth] = useState(0);
+  const videoViewRef = useRef<VideoView>(null);
+  const viewRecorded = useRef(false);
+  // Set when the HLS stream fails to load, the MP4 is played instead
+  const [hlsFailed, setHlsFailed] = useState(false);
+  const source = video ? (hlsFailed ? video.video_url : getPlaybackUrl(video)) : null;
+
+  const player = useVideoPlayer(source, player => {
+    player.loop = true;
+    player.volume = 0.75;
+    player.timeUpdateEventInterval = 0.5;
+
+    // Auto-play only on native platforms or if allowed by browser
+    if (Platform.OS !== 'web') {
+      player.play();
+    }
+  });
+
+  // Handle player events
+  const { isPlaying } = useEvent(player, 'playingChange', { isPlaying: player.playing });
+  const { muted } = useEvent(player, 'mutedChange', { muted: player.muted });
+  const { status } = useEvent(player, 'statusChange', { status: player.status });
+  const { currentTime: position, bufferedPosition: buffered } = useEvent(player, 'timeUpdate', {
+    currentTime: 0,
+    currentLiveTimestamp: null,
+    currentOffsetFromLive: null,
+    bufferedPosition: 0,
+  });
+  const duration = status === 'readyToPlay' || position > 0 ? player.duration : 0;
+
+  useEffect(() => {
+    if (status !== 'error' || !video || source === video.video_url) return;
+    console.warn('Error playing HLS stream, falling back to MP4');
+    setHlsFailed(true);
+  }, [status]);
+
+  useEffect(() => {
+    viewRecorded.current = false;
+    setHlsFailed(false);
+    loadVideo();
+    getCurrentUser();
+  }, [id]);
+
+  useEffect(() => {
+    // Clean up player when component unmounts
+    return () => {
+      player.pause();
+    };
+  }, [player]);
+
+  useEffect(() => {
+    if (!video || viewRecorded.current || !isPlaying) return;
+    if (!hasReachedViewThreshold(position, duration)) return;
+
+    viewRecorded.current = true;
+    recordView(video.id).then(counted => {
+      if (counted) {
+        setVideo(prev => prev && { ...prev, view_count: prev.view_count + 1 });
+      }
+    });
+  }, [position]);
+
+  async function getCurrentUser() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  }
+
+  async function loadVideo() {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await fetchVideo(String(id));
+      if (!data) {
+        setError('Video not found');
+        return;
+      }
+
+      setVideo(data);
+      loadMoreVideos(data);
+    } catch (error) {
+      console.error('Error loading video:', error);
+      setError('Failed to load video');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMoreVideos(current: VideoWithProfile) {
+    try {
+      const page = await fetchVideoPage(
+        { type: 'user', userId: current.user_id },
+        null,
+        MORE_VIDEOS_COUNT + 1
+      );
+      setMoreVideos(page.videos.filter(v => v.id !== current.id).slice(0, MORE_VIDEOS_COUNT));
+    } catch (error) {
+      console.error('Error loading more videos:', error);
+    }
+  }
+
+  async function handleShare() {
+    if (!video) return;
+
+    try {
+      const shared = await shareVideo(video, currentUserId);
+      if (shared) {
+        setVideo(prev => prev && { ...prev, share_count: (prev.share_count || 0) + 1 });
+      }
+    } catch (error) {
+      console.error('Error sharing video:', error);
+      Alert.alert('Error', 'Failed to share video');
+    }
+  }
+
+  function goBack() {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/videoscroll');
+    }
+  }
+
+  // Format time (seconds) to MM:SS
+  const formatTime = (timeInSeconds: number) => {
+    if (isNaN(timeInSeconds) || timeInSeconds === 0) return '00:00';
+    const minutes = Math.floor(timeInSeconds / 60);
+    const seconds = Math.floor(timeInSeconds % 60);
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  function formatNumber(num: number): string {
+    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return num.toString();
+  }
+
+  // Calculate buffered percentage
+  const getBufferedPercentage = () => {
+    if (!buffered || duration === 0) return 0;
+    return Math.min(100, (buffered / duration) * 100);
+  };
+
+  // Calculate progress percentage
+  const getProgressPercentage = () => {
+    if (duration === 0) return 0;
+    return Math.min(100, (position / duration) * 100);
+  };
+
+  // Handle seeking
+  const seek = (percentage: number) => {
+    if (duration > 0) {
+      player.currentTime = (percentage / 100) * duration;
+    }
+  };
+
+  const handleProgressPress = (event: GestureResponderEvent) => {
+    if (progressWidth > 0) {
+      seek((event.nativeEvent.locationX / progressWidth) * 100);
+    }
+  };
+
+  // Toggle fullscreen
+  const toggleFullscreen = () => {
+    if (Platform.OS !== 'web') {
+      videoViewRef.current?.enterFullscreen();
+    } else {
+      // For web, use browser fullscreen API
+      const videoElement = document.querySelector('video');
+      if (videoElement) {
+        if (document.fullscreenElement) {
+          document.exitFullscreen();
+        } else {
+          videoElement.requestFullscreen();
+        }
+      }
+    }
+  };
+
+  // Toggle playback
+  const togglePlayback = () => {
+    if (isPlaying) {
+      player.pause();
+    } else {
+      player.play();
+    }
+  };
+
+  // Toggle mute
+  const toggleMute = () => {
+    player.muted = !muted;
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !video) {
+    return (
+      <View style={[styles.errorContainer, { backgroundColor: colors.background }]}>
+        <Text style={[styles.errorText, { color: colors.error }]}>
+          {error || 'Video not found'}
+        </Text>
+        <TouchableOpacity style={styles.retryButton} onPress={goBack}>
+          <Text style={styles.retryButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <Stack.Screen
+        options={{
+          headerShown: false,
+        }}
+      />
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={goBack}
+        >
+          <Icons.back size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+          {video.title || 'Untitled Video'}
+        </Text>
+        <View style={styles.placeholderButton} />
+      </View>
+
+      <ScrollView>
+        <View style={styles.videoContainer}>
+          <VideoView
+            ref={videoViewRef}
+            style={styles.video}
+            player={player}
+            allowsFullscreen
+            allowsPictureInPicture
+            nativeControls={false}
+          />
+
+          <View style={styles.overlayControls}>
+            {/* Progress bar - tap to seek */}
+            <TouchableWithoutFeedback onPress={handleProgressPress}>
+              <View
+                style={styles.progressTouchArea}
+                onLayout={event => setProgressWidth(event.nativeEvent.layout.width)}
+              >
+                <View style={styles.progressContainer}>
+                  <View style={[styles.bufferedBar, { width: `${getBufferedPercentage()}%` }]} />
+                  <View style={[styles.progressBar, { width: `${getProgressPercentage()}%` }]} />
+                </View>
+                <View
+                  style={[
+                    styles.seekThumb,
+                    { left: `${getProgressPercentage()}%` }
+                  ]}
+                />
+              </View>
+            </TouchableWithoutFeedback>
+
+            {/* Time indicators */}
+            <View style={styles.timeContainer}>
+              <Text style={styles.timeText}>{formatTime(position)}</Text>
+              <Text style={styles.timeText}>{formatTime(duration)}</Text>
+            </View>
+
+            {/* Playback controls */}
+            <View style={styles.controlsRow}>
+              <TouchableOpacity onPress={toggleMute} style={styles.controlButton}>
+                <Icons.volume2 size={24} color="white" style={muted ? styles.mutedIcon : undefined} />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={togglePlayback} style={styles.playButton}>
+                {isPlaying ? (
+                  <Icons.pause size={28} color="white" />
+                ) : (
+                  <Icons.play size={28} color="white" />
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={toggleFullscreen} style={styles.controlButton}>
+                <Icons.maximize size={24} color="white" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        <View style={[styles.infoContainer, { backgroundColor: colors.card }]}>
+          <Text style={[styles.videoTitle, { color: colors.text }]}>
+            {video.title || 'Untitled Video'}
+          </Text>
+          <TouchableOpacity onPress={() => router.push(`/profile/${video.user_id}`)}>
+            <Text style={[styles.username, { color: colors.primary }]}>
+              @{video.user.username}
+            </Text>
+          </TouchableOpacity>
+          {!!video.description && (
+            <Text style={[styles.videoDescription, { color: colors.subtext }]}>
+              {video.description}
+            </Text>
+          )}
+
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Icons.eye size={16} color={colors.primary} />
+              <Text style={[styles.statText, { color: colors.subtext }]}>
+                {formatNumber(video.view_count)} views
+              </Text>
+            </View>
+            <View style={styles.statItem}>
+              <Icons.heart size={16} color={colors.primary} />
+              <Text style={[styles.statText, { color: colors.subtext }]}>
+                {formatNumber(video.like_count)} likes
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.statItem} onPress={handleShare}>
+              <Icons.share size={16} color={colors.primary} />
+              <Text style={[styles.statText, { color: colors.subtext }]}>
+                {video.share_count ? `${formatNumber(video.share_count)} shares` : 'Share'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {moreVideos.length > 0 && (
+          <View style={styles.suggestedVideosContainer}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              More from @{video.user.username}
+            </Text>
+
+            <View style={styles.videoList}>
+              {moreVideos.map((item) => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.videoItem, { backgroundColor: colors.card }]}
+                  onPress={() => router.push(`/video/${item.id}`)}
+                >
+                  <View style={styles.thumbnailContainer}>
+                    <Image
+                      source={{ uri: item.thumbnail_url || `https://picsum.photos/seed/${item.id}/300/400` }}
+                      style={styles.thumbnail}
+                    />
+                  </View>
+
+                  <View style={styles.videoItemInfo}>
+                    <Text
+                      style={[styles.videoItemTitle, { color: colors.text }]}
+                      numberOfLines={2}
+                    >
+                      {item.title || 'Untitled Video'}
+                    </Text>
+                    <Text
+                      style={[styles.videoItemMeta, { color: colors.subtext }]}
+                      numberOfLines={1}
+                    >
+                      {formatNumber(item.view_count)} views • {new Date(item.created_at).toLocaleDateString()}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#4F46E5',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 8 : 48,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  placeholderButton: {
+    width: 40,
+  },
+  videoContainer: {
+    width: '100%',
+    aspectRatio: 9 / 16,
+    maxHeight: 560,
+    position: 'relative',
+    backgroundColor: '#000',
+  },
+  video: {
+    flex: 1,
+  },
+  overlayControls: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  progressTouchArea: {
+    paddingVertical: 8,
+    marginBottom: 4,
+    justifyContent: 'center',
+  },
+  progressContainer: {
+    height: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    borderRadius: 2,
+    overflow: 'hidden',
+    position: 'relative',
+  },
+  bufferedBar: {
+    position: 'absolute',
+    height: '100%',
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  progressBar: {
+    position: 'absolute',
+    height: '100%',
+    backgroundColor: '#4F46E5',
+  },
+  seekThumb: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#4F46E5',
+    marginLeft: -6,
+  },
+  timeContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  timeText: {
+    color: 'white',
+    fontSize: 12,
+  },
+  controlsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  controlButton: {
+    padding: 8,
+  },
+  playButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mutedIcon: {
+    opacity: 0.5,
+  },
+  infoContainer: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  videoTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  username: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  videoDescription: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statText: {
+    fontSize: 14,
+  },
+  suggestedVideosContainer: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  videoList: {
+    gap: 16,
+  },
+  videoItem: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  thumbnailContainer: {
+    width: 80,
+    height: 106,
+    position: 'relative',
+  },
+  thumbnail: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#E2E8F0',
+  },
+  videoItemInfo: {
+    flex: 1,
+    padding: 8,
+    justifyContent: 'center',
+  },
+  videoItemTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  videoItemMeta: {
+    fontSize: 12,
+  },
+});
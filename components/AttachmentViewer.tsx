@@ -0,0 +1,55 @@
+import { View, StyleSheet, Modal, Image, TouchableOpacity } from 'react-native';
+import { Video, ResizeMode } from 'expo-av';
+import { Icons } from './Icons';
+
+interface AttachmentViewerProps {
+  // The photo or video to show full screen, or null when closed
+  attachment: { type: 'image' | 'video'; uri: string } | null;
+  onClose: () => void;
+}
+
+export function AttachmentViewer({ attachment, onClose }: AttachmentViewerProps) {
+  return (
+    <Modal visible={!!attachment} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {attachment?.type === 'image' && (
+          <Image source={{ uri: attachment.uri }} style={styles.media} resizeMode="contain" />
+        )}
+        {attachment?.type === 'video' && (
+          <Video
+            source={{ uri: attachment.uri }}
+            style={styles.media}
+            resizeMode={ResizeMode.CONTAIN}
+            shouldPlay
+            useNativeControls
+          />
+        )}
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Icons.close size={24} color="white" />
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+    justifyContent: 'center',
+  },
+  media: {
+    flex: 1,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 60,
+    right: 20,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
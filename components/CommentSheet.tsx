@@ -0,0 +1,601 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { supabase } from '../lib/supabase';
+import { useTheme } from '../lib/ThemeContext';
+import { Icons } from './Icons';
+import {
+  VideoComment,
+  COMMENTS_PAGE_SIZE,
+  fetchComments,
+  postComment,
+  deleteComment,
+} from '../lib/comments';
+
+interface CommentSheetProps {
+  videoId: string | null;
+  visible: boolean;
+  currentUserId: string | null;
+  onClose: () => void;
+  onCommentsChanged?: (videoId: string) => void;
+}
+
+export function CommentSheet({
+  videoId,
+  visible,
+  currentUserId,
+  onClose,
+  onCommentsChanged,
+}: CommentSheetProps) {
+  const { colors } = useTheme();
+  const [comments, setComments] = useState<VideoComment[]>([]);
+  const [replies, setReplies] = useState<{ [key: string]: VideoComment[] }>({});
+  const [hasMoreReplies, setHasMoreReplies] = useState<{ [key: string]: boolean }>({});
+  const [loadingReplies, setLoadingReplies] = useState<{ [key: string]: boolean }>({});
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<VideoComment | null>(null);
+  const [posting, setPosting] = useState(false);
+  const seenIds = useRef(new Set<string>());
+  const removedIds = useRef(new Set<string>());
+
+  const mergeComments = useCallback((existing: VideoComment[], incoming: VideoComment[]) => {
+    incoming.forEach(comment => seenIds.current.add(comment.id));
+    const ids = new Set(existing.map(comment => comment.id));
+    return [...existing, ...incoming.filter(comment => !ids.has(comment.id))];
+  }, []);
+
+  const loadComments = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      setLoading(true);
+      const page = await fetchComments(id);
+      setComments(mergeComments([], page));
+      setHasMore(page.length === COMMENTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+      setError('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [mergeComments]);
+
+  async function loadMoreComments() {
+    if (!videoId || loading || loadingMore || !hasMore || comments.length === 0) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchComments(videoId, { after: comments[comments.length - 1] });
+      setComments(prev => mergeComments(prev, page));
+      setHasMore(page.length === COMMENTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more comments:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function loadReplies(parent: VideoComment) {
+    if (!videoId || loadingReplies[parent.id]) return;
+
+    try {
+      setLoadingReplies(prev => ({ ...prev, [parent.id]: true }));
+      const loaded = replies[parent.id] || [];
+      const page = await fetchComments(videoId, {
+        parentId: parent.id,
+        after: loaded[loaded.length - 1],
+      });
+      setReplies(prev => ({
+        ...prev,
+        [parent.id]: mergeComments(prev[parent.id] || [], page),
+      }));
+      setHasMoreReplies(prev => ({
+        ...prev,
+        [parent.id]: page.length === COMMENTS_PAGE_SIZE,
+      }));
+    } catch (error) {
+      console.error('Error loading replies:', error);
+    } finally {
+      setLoadingReplies(prev => ({ ...prev, [parent.id]: false }));
+    }
+  }
+
+  // Local actions and realtime events can both report the same change,
+  // so every comment is only ever added or removed once.
+  const addComment = useCallback((comment: VideoComment) => {
+    if (seenIds.current.has(comment.id)) return;
+    seenIds.current.add(comment.id);
+
+    if (comment.parent_id) {
+      const parentId = comment.parent_id;
+      setReplies(prev =>
+        prev[parentId] ? { ...prev, [parentId]: [...prev[parentId], comment] } : prev
+      );
+      setComments(prev =>
+        prev.map(parent =>
+          parent.id === parentId
+            ? { ...parent, reply_count: parent.reply_count + 1 }
+            : parent
+        )
+      );
+    } else {
+      setComments(prev => [comment, ...prev]);
+    }
+  }, []);
+
+  const removeComment = useCallback((commentId: string, parentId: string | null) => {
+    if (removedIds.current.has(commentId)) return;
+    removedIds.current.add(commentId);
+
+    if (parentId) {
+      setReplies(prev =>
+        prev[parentId]
+          ? { ...prev, [parentId]: prev[parentId].filter(reply => reply.id !== commentId) }
+          : prev
+      );
+      setComments(prev =>
+        prev.map(parent =>
+          parent.id === parentId
+            ? { ...parent, reply_count: Math.max(0, parent.reply_count - 1) }
+            : parent
+        )
+      );
+    } else {
+      setComments(prev => prev.filter(comment => comment.id !== commentId));
+      setReplies(prev => {
+        const { [commentId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  }, []);
+
+  const handleCommentInserted = useCallback(async (payload: any) => {
+    const inserted = payload.new;
+    if (seenIds.current.has(inserted.id)) return;
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('username, avatar_url')
+      .eq('id', inserted.user_id)
+      .single();
+
+    addComment({
+      ...inserted,
+      username: profile?.username || null,
+      avatar_url: profile?.avatar_url || null,
+      reply_count: 0,
+    });
+  }, [addComment]);
+
+  const handleCommentDeleted = useCallback((payload: any) => {
+    const deleted = payload.old;
+    if (!deleted?.id || deleted.video_id !== videoId) return;
+    removeComment(deleted.id, deleted.parent_id);
+  }, [videoId, removeComment]);
+
+  useEffect(() => {
+    if (!visible || !videoId) return;
+
+    seenIds.current = new Set();
+    removedIds.current = new Set();
+    setComments([]);
+    setReplies({});
+    setHasMoreReplies({});
+    setReplyingTo(null);
+    setNewComment('');
+    loadComments(videoId);
+
+    const subscription = supabase
+      .channel(`video-comments-${videoId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'video_comments',
+        filter: `video_id=eq.${videoId}`,
+      }, handleCommentInserted)
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'video_comments',
+      }, handleCommentDeleted)
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [visible, videoId, loadComments, handleCommentInserted, handleCommentDeleted]);
+
+  async function handlePost() {
+    if (!videoId || !currentUserId || !newComment.trim()) return;
+
+    try {
+      setPosting(true);
+      setError(null);
+
+      const parentId = replyingTo ? replyingTo.parent_id || replyingTo.id : null;
+      const created = await postComment(videoId, currentUserId, newComment, parentId);
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('username, avatar_url')
+        .eq('id', currentUserId)
+        .single();
+
+      addComment({
+        ...created,
+        username: profile?.username || null,
+        avatar_url: profile?.avatar_url || null,
+        reply_count: 0,
+      });
+
+      // Expand the thread so the new reply is visible alongside earlier ones
+      const parent = comments.find(comment => comment.id === parentId);
+      if (parent && !replies[parent.id]) {
+        loadReplies(parent);
+      }
+
+      setNewComment('');
+      setReplyingTo(null);
+      onCommentsChanged?.(videoId);
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      setError('Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  function confirmDelete(comment: VideoComment) {
+    Alert.alert(
+      'Delete comment',
+      comment.reply_count > 0
+        ? 'This will also delete all replies to this comment.'
+        : 'Are you sure you want to delete this comment?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => handleDelete(comment) },
+      ]
+    );
+  }
+
+  async function handleDelete(comment: VideoComment) {
+    if (!videoId || !currentUserId) return;
+
+    try {
+      await deleteComment(comment.id, currentUserId);
+      removeComment(comment.id, comment.parent_id);
+      onCommentsChanged?.(videoId);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      setError('Failed to delete comment');
+    }
+  }
+
+  function formatTime(dateString: string): string {
+    const diff = Date.now() - new Date(dateString).getTime();
+    const minutes = Math.floor(diff / (1000 * 60));
+    if (minutes < 1) return 'now';
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h`;
+    const days = Math.floor(hours / 24);
+    if (days < 7) return `${days}d`;
+    return new Date(dateString).toLocaleDateString();
+  }
+
+  function renderComment(comment: VideoComment, isReply = false) {
+    const isOwnComment = comment.user_id === currentUserId;
+
+    return (
+      <View key={comment.id} style={[styles.comment, isReply && styles.reply]}>
+        {comment.avatar_url ? (
+          <Image source={{ uri: comment.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatarPlaceholder, { backgroundColor: colors.primaryLight }]}>
+            <Icons.user size={16} color={colors.primary} />
+          </View>
+        )}
+        <View style={styles.commentBody}>
+          <Text style={[styles.commentUsername, { color: colors.subtext }]}>
+            @{comment.username || `user_${comment.user_id.slice(0, 8)}`}
+            <Text style={styles.commentTime}>  {formatTime(comment.created_at)}</Text>
+          </Text>
+          <Text style={[styles.commentText, { color: colors.text }]}>{comment.content}</Text>
+          <View style={styles.commentActions}>
+            <TouchableOpacity onPress={() => setReplyingTo(comment)}>
+              <Text style={[styles.commentAction, { color: colors.subtext }]}>Reply</Text>
+            </TouchableOpacity>
+            {isOwnComment && (
+              <TouchableOpacity onPress={() => confirmDelete(comment)}>
+                <Text style={[styles.commentAction, { color: colors.error }]}>Delete</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  function renderThread({ item }: { item: VideoComment }) {
+    const loadedReplies = replies[item.id];
+    const remaining = item.reply_count - (loadedReplies?.length || 0);
+    const showLoadButton = remaining > 0 && (!loadedReplies || hasMoreReplies[item.id]);
+
+    return (
+      <View>
+        {renderComment(item)}
+        {loadedReplies?.map(reply => renderComment(reply, true))}
+        {showLoadButton && (
+          <TouchableOpacity
+            style={styles.viewReplies}
+            onPress={() => loadReplies(item)}
+            disabled={loadingReplies[item.id]}
+          >
+            {loadingReplies[item.id] ? (
+              <ActivityIndicator size="small" color={colors.subtext} />
+            ) : (
+              <Text style={[styles.viewRepliesText, { color: colors.subtext }]}>
+                {loadedReplies ? 'View more replies' : `View ${item.reply_count} ${item.reply_count === 1 ? 'reply' : 'replies'}`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: colors.card }]}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]}>Comments</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Icons.close size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+          {loading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : (
+            <FlatList
+              data={comments}
+              keyExtractor={item => item.id}
+              renderItem={renderThread}
+              contentContainerStyle={styles.list}
+              onEndReached={loadMoreComments}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                loadingMore ? <ActivityIndicator size="small" color={colors.primary} /> : null
+              }
+              ListEmptyComponent={
+                <View style={styles.centered}>
+                  <Icons.comment size={40} color={colors.placeholder} />
+                  <Text style={[styles.emptyText, { color: colors.subtext }]}>
+                    No comments yet. Be the first to comment!
+                  </Text>
+                </View>
+              }
+            />
+          )}
+
+          {replyingTo && (
+            <View style={[styles.replyingTo, { backgroundColor: colors.background }]}>
+              <Text style={[styles.replyingToText, { color: colors.subtext }]} numberOfLines={1}>
+                Replying to @{replyingTo.username || `user_${replyingTo.user_id.slice(0, 8)}`}
+              </Text>
+              <TouchableOpacity onPress={() => setReplyingTo(null)}>
+                <Icons.close size={16} color={colors.subtext} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={[styles.inputContainer, { borderTopColor: colors.border }]}>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.background, color: colors.text }]}
+              value={newComment}
+              onChangeText={setNewComment}
+              placeholder={replyingTo ? 'Add a reply...' : 'Add a comment...'}
+              placeholderTextColor={colors.placeholder}
+              multiline
+              maxLength={500}
+            />
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                { backgroundColor: colors.primary },
+                (!newComment.trim() || posting) && { opacity: 0.5 },
+              ]}
+              onPress={handlePost}
+              disabled={!newComment.trim() || posting}
+            >
+              {posting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Icons.send size={18} color="white" />
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    height: '70%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 16,
+    padding: 4,
+  },
+  error: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  comment: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+  },
+  reply: {
+    marginLeft: 44,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  commentBody: {
+    flex: 1,
+  },
+  commentUsername: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  commentTime: {
+    fontWeight: '400',
+  },
+  commentText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  commentActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 4,
+  },
+  commentAction: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  viewReplies: {
+    marginLeft: 44,
+    paddingVertical: 6,
+    alignSelf: 'flex-start',
+  },
+  viewRepliesText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  replyingTo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  replyingToText: {
+    flex: 1,
+    fontSize: 12,
+    marginRight: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingBottom: 24,
+    borderTopWidth: 1,
+  },
+  input: {
+    flex: 1,
+    marginRight: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    fontSize: 14,
+    maxHeight: 100,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
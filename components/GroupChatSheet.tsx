@@ -0,0 +1,605 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { useTheme } from '../lib/ThemeContext';
+import { Icons } from './Icons';
+import { Button } from './Button';
+import { ProfileSearchResult, searchProfiles } from '../lib/search';
+import {
+  Conversation,
+  ConversationMember,
+  createGroupConversation,
+  updateGroupConversation,
+  uploadGroupAvatar,
+  fetchConversationMembers,
+  addConversationMembers,
+  removeConversationMember,
+  setConversationMemberRole,
+} from '../lib/conversations';
+
+interface GroupChatSheetProps {
+  visible: boolean;
+  // The group to show, or null to create a new one
+  conversation: Conversation | null;
+  currentUserId: string | null;
+  onClose: () => void;
+  onSaved: (conversationId: string) => void;
+  onLeft: (conversationId: string) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+export function GroupChatSheet({
+  visible,
+  conversation,
+  currentUserId,
+  onClose,
+  onSaved,
+  onLeft,
+}: GroupChatSheetProps) {
+  const { colors } = useTheme();
+  const [name, setName] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [members, setMembers] = useState<ConversationMember[]>([]);
+  const [selected, setSelected] = useState<ProfileSearchResult[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ProfileSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isNew = !conversation;
+  const isAdmin = isNew || conversation.role === 'admin';
+  // The form is filled when the sheet opens, not again when the parent
+  // refreshes the conversation while it is being edited
+  const conversationRef = useRef(conversation);
+  conversationRef.current = conversation;
+  const conversationId = conversation?.id;
+
+  const search = useCallback(async (text: string) => {
+    try {
+      setSearching(true);
+      const profiles = await searchProfiles(text);
+      setResults(profiles.filter(profile =>
+        profile.id !== currentUserId
+        && !members.some(member => member.user_id === profile.id)
+      ));
+    } catch (error) {
+      console.error('Error searching profiles:', error);
+    } finally {
+      setSearching(false);
+    }
+  }, [currentUserId, members]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const current = conversationRef.current;
+    setName(current?.group_name || '');
+    setAvatarUrl(current?.group_avatar_url || null);
+    setMembers([]);
+    setSelected([]);
+    setQuery('');
+    setResults([]);
+    setError(null);
+
+    if (current) {
+      loadMembers(current.id);
+    }
+  }, [visible, conversationId]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(() => search(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, search]);
+
+  async function loadMembers(conversationId: string) {
+    try {
+      setMembers(await fetchConversationMembers(conversationId));
+    } catch (error) {
+      console.error('Error loading group members:', error);
+      setError('Failed to load members');
+    }
+  }
+
+  function toggleSelected(profile: ProfileSearchResult) {
+    setSelected(prev =>
+      prev.some(item => item.id === profile.id)
+        ? prev.filter(item => item.id !== profile.id)
+        : [...prev, profile]
+    );
+  }
+
+  async function pickAvatar() {
+    if (!currentUserId) return;
+
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permissionResult.granted) {
+        setError('Permission to access photos is required');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.8,
+      });
+
+      if (result.canceled || !result.assets[0]) return;
+
+      setUploadingAvatar(true);
+      setError(null);
+      setAvatarUrl(await uploadGroupAvatar(currentUserId, result.assets[0]));
+    } catch (error) {
+      console.error('Error uploading group avatar:', error);
+      setError('Failed to upload image');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  }
+
+  async function handleSave() {
+    if (!name.trim()) {
+      setError('Please enter a group name');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (conversation) {
+        await updateGroupConversation(conversation.id, name, avatarUrl);
+        if (selected.length > 0) {
+          await addConversationMembers(conversation.id, selected.map(profile => profile.id));
+        }
+        onSaved(conversation.id);
+      } else {
+        if (selected.length === 0) {
+          setError('Add at least one member');
+          return;
+        }
+        const conversationId = await createGroupConversation(
+          name,
+          selected.map(profile => profile.id),
+          avatarUrl
+        );
+        onSaved(conversationId);
+      }
+    } catch (error) {
+      console.error('Error saving group:', error);
+      setError(isNew ? 'Failed to create group' : 'Failed to save group');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRoleChange(member: ConversationMember) {
+    if (!conversation) return;
+
+    try {
+      setError(null);
+      const role = member.role === 'admin' ? 'member' : 'admin';
+      await setConversationMemberRole(conversation.id, member.user_id, role);
+      setMembers(prev =>
+        prev.map(item => (item.user_id === member.user_id ? { ...item, role } : item))
+      );
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      setError('Failed to change role');
+    }
+  }
+
+  function confirmRemove(member: ConversationMember) {
+    Alert.alert(
+      'Remove member',
+      `Remove ${member.username || 'this member'} from the group?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => handleRemove(member) },
+      ]
+    );
+  }
+
+  async function handleRemove(member: ConversationMember) {
+    if (!conversation) return;
+
+    try {
+      setError(null);
+      await removeConversationMember(conversation.id, member.user_id);
+      setMembers(prev => prev.filter(item => item.user_id !== member.user_id));
+    } catch (error) {
+      console.error('Error removing member:', error);
+      setError('Failed to remove member');
+    }
+  }
+
+  function confirmLeave() {
+    Alert.alert(
+      'Leave group',
+      'You will no longer receive messages from this group.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Leave', style: 'destructive', onPress: handleLeave },
+      ]
+    );
+  }
+
+  async function handleLeave() {
+    if (!conversation || !currentUserId) return;
+
+    try {
+      setError(null);
+      await removeConversationMember(conversation.id, currentUserId);
+      onLeft(conversation.id);
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      setError('Failed to leave group');
+    }
+  }
+
+  function renderAvatar(uri: string | null, size: number) {
+    const style = { width: size, height: size, borderRadius: size / 2 };
+    return uri ? (
+      <Image source={{ uri }} style={style} />
+    ) : (
+      <View style={[style, styles.avatarPlaceholder, { backgroundColor: colors.primaryLight }]}>
+        <Icons.user size={size / 2} color={colors.primary} />
+      </View>
+    );
+  }
+
+  function renderMember(member: ConversationMember) {
+    const isSelf = member.user_id === currentUserId;
+    return (
+      <View key={member.user_id} style={styles.row}>
+        {renderAvatar(member.avatar_url, 36)}
+        <View style={styles.rowInfo}>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+            {member.username || `user_${member.user_id.slice(0, 8)}`}
+            {isSelf ? ' (you)' : ''}
+          </Text>
+          {member.role === 'admin' && (
+            <Text style={[styles.rowSubtitle, { color: colors.primary }]}>Admin</Text>
+          )}
+        </View>
+        {isAdmin && !isSelf && (
+          <View style={styles.rowActions}>
+            <TouchableOpacity onPress={() => handleRoleChange(member)}>
+              <Text style={[styles.rowAction, { color: colors.primary }]}>
+                {member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => confirmRemove(member)}>
+              <Text style={[styles.rowAction, { color: colors.error }]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  function renderResult(profile: ProfileSearchResult) {
+    const isSelected = selected.some(item => item.id === profile.id);
+    return (
+      <TouchableOpacity key={profile.id} style={styles.row} onPress={() => toggleSelected(profile)}>
+        {renderAvatar(profile.avatar_url, 36)}
+        <View style={styles.rowInfo}>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+            {profile.username || `user_${profile.id.slice(0, 8)}`}
+          </Text>
+        </View>
+        <View
+          style={[
+            styles.checkbox,
+            { borderColor: colors.primary },
+            isSelected && { backgroundColor: colors.primary },
+          ]}
+        >
+          {isSelected && <Icons.check size={14} color="white" />}
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: colors.card }]}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {isNew ? 'New group' : 'Group info'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Icons.close size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.groupHeader}>
+              <TouchableOpacity onPress={pickAvatar} disabled={!isAdmin || uploadingAvatar}>
+                {renderAvatar(avatarUrl, 72)}
+                {uploadingAvatar ? (
+                  <View style={styles.avatarOverlay}>
+                    <ActivityIndicator size="small" color="white" />
+                  </View>
+                ) : isAdmin && (
+                  <View style={[styles.avatarBadge, { backgroundColor: colors.primary }]}>
+                    <Icons.camera size={12} color="white" />
+                  </View>
+                )}
+              </TouchableOpacity>
+              <TextInput
+                style={[styles.nameInput, { backgroundColor: colors.background, color: colors.text }]}
+                value={name}
+                onChangeText={setName}
+                placeholder="Group name"
+                placeholderTextColor={colors.placeholder}
+                editable={isAdmin}
+                maxLength={60}
+              />
+            </View>
+
+            {!isNew && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.subtext }]}>
+                  {members.length} {members.length === 1 ? 'member' : 'members'}
+                </Text>
+                {members.map(renderMember)}
+              </>
+            )}
+
+            {isAdmin && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.subtext }]}>
+                  {isNew ? 'Members' : 'Add members'}
+                </Text>
+                {selected.length > 0 && (
+                  <View style={styles.chips}>
+                    {selected.map(profile => (
+                      <TouchableOpacity
+                        key={profile.id}
+                        style={[styles.chip, { backgroundColor: colors.primaryLight }]}
+                        onPress={() => toggleSelected(profile)}
+                      >
+                        <Text style={[styles.chipText, { color: colors.primary }]}>
+                          {profile.username || `user_${profile.id.slice(0, 8)}`}
+                        </Text>
+                        <Icons.close size={12} color={colors.primary} />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+                <View style={[styles.searchContainer, { backgroundColor: colors.background }]}>
+                  <Icons.search size={18} color={colors.placeholder} />
+                  <TextInput
+                    style={[styles.searchInput, { color: colors.text }]}
+                    value={query}
+                    onChangeText={setQuery}
+                    placeholder="Search people"
+                    placeholderTextColor={colors.placeholder}
+                    autoCapitalize="none"
+                  />
+                  {searching && <ActivityIndicator size="small" color={colors.primary} />}
+                </View>
+                {results.map(renderResult)}
+              </>
+            )}
+
+            {!isNew && (
+              <TouchableOpacity style={styles.leaveButton} onPress={confirmLeave}>
+                <Text style={[styles.leaveText, { color: colors.error }]}>Leave group</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          {isAdmin && (
+            <View style={[styles.footer, { borderTopColor: colors.border }]}>
+              <Button
+                title={isNew ? 'Create group' : 'Save'}
+                onPress={handleSave}
+                loading={saving}
+              />
+            </View>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    height: '80%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 16,
+    padding: 4,
+  },
+  error: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  avatarPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 36,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  nameInput: {
+    flex: 1,
+    marginLeft: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  rowInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowAction: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 15,
+  },
+  leaveButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    marginTop: 16,
+  },
+  leaveText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: 24,
+    borderTopWidth: 1,
+  },
+});
@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withDelay,
+  withSequence,
+  withSpring,
+  withTiming,
+} from 'react-native-reanimated';
+import { Icons } from './Icons';
+
+const HEART_SIZE = 96;
+
+interface HeartBurstProps {
+  x: number;
+  y: number;
+  onDone: () => void;
+}
+
+// Heart that pops up where a video was double-tapped and then floats away
+export function HeartBurst({ x, y, onDone }: HeartBurstProps) {
+  const scale = useSharedValue(0);
+  const opacity = useSharedValue(1);
+  const translateY = useSharedValue(0);
+  // A slight random tilt so repeated taps don't stack identical hearts
+  const [rotation] = useState(() => (Math.random() - 0.5) * 30);
+  // The animation runs once, so it reports to the latest callback
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    const done = () => onDoneRef.current();
+
+    scale.value = withSequence(
+      withSpring(1.2, { damping: 6, stiffness: 300 }),
+      withTiming(1, { duration: 100 })
+    );
+    translateY.value = withDelay(400, withTiming(-80, { duration: 400 }));
+    opacity.value = withDelay(400, withTiming(0, { duration: 400 }, finished => {
+      if (finished) runOnJS(done)();
+    }));
+  }, [scale, opacity, translateY]);
+
+  const style = useAnimatedStyle(() => ({
+    opacity: opacity.value,
+    transform: [
+      { translateY: translateY.value },
+      { scale: scale.value },
+      { rotate: `${rotation}deg` },
+    ],
+  }));
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[styles.heart, { left: x - HEART_SIZE / 2, top: y - HEART_SIZE / 2 }, style]}
+    >
+      <Icons.heart size={HEART_SIZE} color="#EF4444" fill="#EF4444" />
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  heart: {
+    position: 'absolute',
+    width: HEART_SIZE,
+    height: HEART_SIZE,
+  },
+});
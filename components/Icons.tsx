@@ -12,6 +12,7 @@ import {
   Send,
   Video,
   Volume2,
+  VolumeX,
   Plus,
   Settings,
   Camera,
@@ -27,6 +28,13 @@ import {
   Maximize,
   type Icon as LucideIcon,
   AlertTriangle,
+  X,
+  BarChart2,
+  Users,
+  Check,
+  CheckCheck,
+  Image,
+  Film,
 } from 'lucide-react-native';
 
 export type Icon = LucideIcon;
@@ -45,6 +53,7 @@ export const Icons = {
   send: Send,
   video: Video,
   volume2: Volume2,
+  volumeX: VolumeX,
   plus: Plus,
   settings: Settings,
   camera: Camera,
@@ -59,4 +68,11 @@ export const Icons = {
   pause: Pause,
   maximize: Maximize,
   alert: AlertTriangle,
+  close: X,
+  analytics: BarChart2,
+  users: Users,
+  check: Check,
+  checkCheck: CheckCheck,
+  image: Image,
+  film: Film,
 } as const;
\ No newline at end of file
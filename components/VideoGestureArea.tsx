@@ -0,0 +1,61 @@
+import { useState, ReactNode } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { HeartBurst } from './HeartBurst';
+
+interface VideoGestureAreaProps {
+  children: ReactNode;
+  onTap: () => void;
+  onDoubleTap: () => void;
+}
+
+interface Burst {
+  id: number;
+  x: number;
+  y: number;
+}
+
+let nextBurstId = 0;
+
+// Fills its parent and tells single taps apart from double taps, showing a
+// heart where the double tap landed
+export function VideoGestureArea({ children, onTap, onDoubleTap }: VideoGestureAreaProps) {
+  const [bursts, setBursts] = useState<Burst[]>([]);
+
+  function handleDoubleTap(x: number, y: number) {
+    setBursts(prev => [...prev, { id: nextBurstId++, x, y }]);
+    onDoubleTap();
+  }
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .runOnJS(true)
+    .onEnd(event => handleDoubleTap(event.x, event.y));
+
+  // Waits for the double tap to fail, so a like never also pauses the video
+  const singleTap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd(() => onTap());
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(doubleTap, singleTap)}>
+      <View style={styles.container}>
+        {children}
+        {bursts.map(burst => (
+          <HeartBurst
+            key={burst.id}
+            x={burst.x}
+            y={burst.y}
+            onDone={() => setBursts(prev => prev.filter(item => item.id !== burst.id))}
+          />
+        ))}
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+  },
+});
@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useTheme } from '../lib/ThemeContext';
+import { Icons } from './Icons';
+import { VideoSearchResult, searchVideos } from '../lib/search';
+
+interface VideoPickerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (video: VideoSearchResult) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Finds a video of the app to share in a chat
+export function VideoPickerSheet({ visible, onClose, onSelect }: VideoPickerSheetProps) {
+  const { colors } = useTheme();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<VideoSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, [visible]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(() => search(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  async function search(text: string) {
+    try {
+      setSearching(true);
+      setError(null);
+      setResults(await searchVideos(text));
+    } catch (error) {
+      console.error('Error searching videos:', error);
+      setError('Failed to search videos');
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function renderVideo({ item }: { item: VideoSearchResult }) {
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => onSelect(item)}>
+        {item.thumbnail_url ? (
+          <Image source={{ uri: item.thumbnail_url }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder, { backgroundColor: colors.primaryLight }]}>
+            <Icons.video size={20} color={colors.primary} />
+          </View>
+        )}
+        <View style={styles.rowInfo}>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={2}>
+            {item.title}
+          </Text>
+          <Text style={[styles.rowSubtitle, { color: colors.subtext }]} numberOfLines={1}>
+            {item.username || `user_${item.user_id.slice(0, 8)}`}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: colors.card }]}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]}>Share a video</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Icons.close size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.searchContainer, { backgroundColor: colors.background }]}>
+            <Icons.search size={18} color={colors.placeholder} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search videos"
+              placeholderTextColor={colors.placeholder}
+              autoCapitalize="none"
+              autoFocus
+            />
+            {searching && <ActivityIndicator size="small" color={colors.primary} />}
+          </View>
+
+          {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+          <FlatList
+            data={results}
+            keyExtractor={item => item.id}
+            renderItem={renderVideo}
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              !searching ? (
+                <Text style={[styles.emptyText, { color: colors.subtext }]}>
+                  {query.trim() ? 'No videos found' : 'Search by title, description or tag'}
+                </Text>
+              ) : null
+            }
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    height: '70%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 16,
+    padding: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 15,
+  },
+  error: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  thumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 6,
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,96 @@
+import { View, StyleSheet } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { SharedValue, runOnJS, useAnimatedStyle, useSharedValue } from 'react-native-reanimated';
+
+interface VideoProgressBarProps {
+  // Playback position between 0 and 1, updated by the player
+  progress: SharedValue<number>;
+  // Set while the user drags, so player updates don't move the thumb
+  scrubbing: SharedValue<boolean>;
+  onSeek: (ratio: number) => void;
+}
+
+export function VideoProgressBar({ progress, scrubbing, onSeek }: VideoProgressBarProps) {
+  const width = useSharedValue(0);
+
+  function clampRatio(x: number) {
+    'worklet';
+    return width.value > 0 ? Math.min(1, Math.max(0, x / width.value)) : 0;
+  }
+
+  // Horizontal drags scrub; vertical ones fail so the feed can still scroll
+  const pan = Gesture.Pan()
+    .activeOffsetX([-8, 8])
+    .failOffsetY([-12, 12])
+    .onStart(event => {
+      scrubbing.value = true;
+      progress.value = clampRatio(event.x);
+    })
+    .onUpdate(event => {
+      progress.value = clampRatio(event.x);
+    })
+    .onEnd(event => {
+      runOnJS(onSeek)(clampRatio(event.x));
+    })
+    .onFinalize(() => {
+      scrubbing.value = false;
+    });
+
+  const tap = Gesture.Tap().onEnd(event => {
+    progress.value = clampRatio(event.x);
+    runOnJS(onSeek)(clampRatio(event.x));
+  });
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${progress.value * 100}%`,
+  }));
+
+  const thumbStyle = useAnimatedStyle(() => ({
+    left: `${progress.value * 100}%`,
+    transform: [{ scale: scrubbing.value ? 1.5 : 1 }],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Race(pan, tap)}>
+      <View
+        style={styles.container}
+        onLayout={event => {
+          width.value = event.nativeEvent.layout.width;
+        }}
+      >
+        <View style={styles.track}>
+          <Animated.View style={[styles.fill, fillStyle]} />
+        </View>
+        <Animated.View style={[styles.thumb, thumbStyle]} />
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 20,
+    justifyContent: 'flex-end',
+  },
+  track: {
+    height: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: 'white',
+  },
+  thumb: {
+    position: 'absolute',
+    bottom: -3,
+    width: 9,
+    height: 9,
+    marginLeft: -4.5,
+    borderRadius: 4.5,
+    backgroundColor: 'white',
+  },
+});
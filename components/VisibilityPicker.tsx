@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../lib/ThemeContext';
+import { Switch } from './Switch';
+import { VideoVisibility, VIDEO_VISIBILITY_OPTIONS } from '../lib/videos';
+
+interface VisibilityPickerProps {
+  visibility: VideoVisibility;
+  onVisibilityChange: (visibility: VideoVisibility) => void;
+  // ISO timestamp, an empty string while the typed date is incomplete, or
+  // null to publish right away
+  publishAt: string | null;
+  onPublishAtChange: (publishAt: string | null) => void;
+  disabled?: boolean;
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, '0');
+}
+
+function toDateInput(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toTimeInput(date: Date) {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Returns why a scheduled time can't be used, or null when it can
+export function getPublishAtError(publishAt: string | null): string | null {
+  if (publishAt === null) return null;
+  if (!publishAt) return 'Enter the date as YYYY-MM-DD and the time as HH:MM';
+  if (new Date(publishAt).getTime() <= Date.now()) return 'Scheduled time must be in the future';
+  return null;
+}
+
+export function VisibilityPicker({
+  visibility,
+  onVisibilityChange,
+  publishAt,
+  onPublishAtChange,
+  disabled,
+}: VisibilityPickerProps) {
+  const { colors } = useTheme();
+  const initial = publishAt ? new Date(publishAt) : null;
+  const [date, setDate] = useState(initial ? toDateInput(initial) : '');
+  const [time, setTime] = useState(initial ? toTimeInput(initial) : '');
+
+  function updateSchedule(nextDate: string, nextTime: string) {
+    setDate(nextDate);
+    setTime(nextTime);
+
+    const valid = /^\d{4}-\d{2}-\d{2}$/.test(nextDate) && /^\d{2}:\d{2}$/.test(nextTime);
+    // Without a timezone suffix the date is parsed as local time
+    const scheduled = valid ? new Date(`${nextDate}T${nextTime}`) : null;
+    onPublishAtChange(scheduled && !isNaN(scheduled.getTime()) ? scheduled.toISOString() : '');
+  }
+
+  function toggleSchedule(enabled: boolean) {
+    if (!enabled) {
+      onPublishAtChange(null);
+      return;
+    }
+
+    // Default to the next full hour tomorrow
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(tomorrow.getHours() + 1, 0, 0, 0);
+    updateSchedule(toDateInput(tomorrow), toTimeInput(tomorrow));
+  }
+
+  const selected = VIDEO_VISIBILITY_OPTIONS.find(option => option.value === visibility);
+  const scheduleError = getPublishAtError(publishAt);
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>Visibility</Text>
+      <View style={styles.options}>
+        {VIDEO_VISIBILITY_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.option,
+              { borderColor: colors.border, backgroundColor: colors.card },
+              visibility === option.value && { borderColor: colors.primary, backgroundColor: colors.primary },
+            ]}
+            onPress={() => onVisibilityChange(option.value)}
+            disabled={disabled}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                { color: visibility === option.value ? 'white' : colors.text },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {selected && (
+        <Text style={[styles.hint, { color: colors.subtext }]}>{selected.description}</Text>
+      )}
+
+      <View style={styles.scheduleRow}>
+        <Text style={[styles.label, styles.scheduleLabel, { color: colors.text }]}>Schedule for later</Text>
+        <Switch
+          value={publishAt !== null}
+          onValueChange={value => !disabled && toggleSchedule(value)}
+        />
+      </View>
+
+      {publishAt !== null && (
+        <>
+          <View style={styles.scheduleInputs}>
+            <TextInput
+              style={[
+                styles.input,
+                { borderColor: colors.border, backgroundColor: colors.card, color: colors.text },
+              ]}
+              value={date}
+              onChangeText={text => updateSchedule(text, time)}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.placeholder}
+              editable={!disabled}
+            />
+            <TextInput
+              style={[
+                styles.input,
+                { borderColor: colors.border, backgroundColor: colors.card, color: colors.text },
+              ]}
+              value={time}
+              onChangeText={text => updateSchedule(date, text)}
+              placeholder="HH:MM"
+              placeholderTextColor={colors.placeholder}
+              editable={!disabled}
+            />
+          </View>
+          <Text style={[styles.hint, { color: scheduleError ? colors.error : colors.subtext }]}>
+            {scheduleError || `Only you can see this video until ${new Date(publishAt).toLocaleString()}`}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  scheduleLabel: {
+    marginBottom: 0,
+  },
+  scheduleInputs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+});
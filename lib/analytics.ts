@@ -0,0 +1,99 @@
+import { supabase } from './supabase';
+
+export interface AnalyticsSummary {
+  video_count: number;
+  view_count: number;
+  like_count: number;
+  comment_count: number;
+  share_count: number;
+  bookmark_count: number;
+  follower_count: number;
+}
+
+export interface VideoAnalytics {
+  id: string;
+  title: string;
+  thumbnail_url: string | null;
+  created_at: string;
+  view_count: number;
+  like_count: number;
+  comment_count: number;
+  share_count: number;
+  bookmark_count: number;
+}
+
+export interface FollowerGrowthPoint {
+  day: string;
+  new_followers: number;
+  total_followers: number;
+}
+
+export const VIDEO_ANALYTICS_PAGE_SIZE = 20;
+
+// bigint columns come back from PostgREST as strings for large values
+function toCount(value: number | string | null | undefined): number {
+  return Number(value) || 0;
+}
+
+function toAnalyticsSummary(row: AnalyticsSummary): AnalyticsSummary {
+  return {
+    video_count: toCount(row.video_count),
+    view_count: toCount(row.view_count),
+    like_count: toCount(row.like_count),
+    comment_count: toCount(row.comment_count),
+    share_count: toCount(row.share_count),
+    bookmark_count: toCount(row.bookmark_count),
+    follower_count: toCount(row.follower_count),
+  };
+}
+
+function toVideoAnalytics(row: VideoAnalytics): VideoAnalytics {
+  return {
+    ...row,
+    view_count: toCount(row.view_count),
+    like_count: toCount(row.like_count),
+    comment_count: toCount(row.comment_count),
+    share_count: toCount(row.share_count),
+    bookmark_count: toCount(row.bookmark_count),
+  };
+}
+
+function toFollowerGrowthPoint(row: FollowerGrowthPoint): FollowerGrowthPoint {
+  return {
+    day: row.day,
+    new_followers: toCount(row.new_followers),
+    total_followers: toCount(row.total_followers),
+  };
+}
+
+export async function fetchAnalyticsSummary(): Promise<AnalyticsSummary> {
+  const { data, error } = await supabase.rpc('get_creator_analytics_summary');
+
+  if (error) throw error;
+  return toAnalyticsSummary(data?.[0] || {
+    video_count: 0,
+    view_count: 0,
+    like_count: 0,
+    comment_count: 0,
+    share_count: 0,
+    bookmark_count: 0,
+    follower_count: 0,
+  });
+}
+
+export async function fetchVideoAnalytics(offset = 0): Promise<VideoAnalytics[]> {
+  const { data, error } = await supabase.rpc('get_creator_video_analytics', {
+    page_size: VIDEO_ANALYTICS_PAGE_SIZE,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return (data || []).map(toVideoAnalytics);
+}
+
+export async function fetchFollowerGrowth(days = 30): Promise<FollowerGrowthPoint[]> {
+  const { data, error } = await supabase.rpc('get_follower_growth', { days });
+
+  if (error) throw error;
+  return (data || []).map(toFollowerGrowthPoint);
+}
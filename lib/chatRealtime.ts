@@ -0,0 +1,266 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { supabase } from './supabase';
+import {
+  ConversationMessage,
+  fetchReadStates,
+  fetchUnreadMessageCount,
+} from './conversations';
+
+export interface TypingUser {
+  userId: string;
+  username: string | null;
+}
+
+// Stored on the server; read once every other participant has seen it
+export type MessageReceipt = 'delivered' | 'read';
+
+// A typing notice is sent at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 2000;
+
+// Without a newer notice, someone stops showing as typing after this long
+const TYPING_TIMEOUT_MS = 4000;
+
+let onlineUserIds = new Set<string>();
+const onlineListeners = new Set<(userIds: Set<string>) => void>();
+
+function notifyOnline() {
+  const snapshot = onlineUserIds;
+  onlineListeners.forEach(listener => listener(snapshot));
+}
+
+// Shares that the current user has the app open and keeps track of who else
+// does. Returns a cleanup function.
+export function startOnlinePresence() {
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+  let stopped = false;
+
+  function track() {
+    channel?.track({ online_at: new Date().toISOString() });
+  }
+
+  supabase.auth.getUser().then(({ data: { user } }) => {
+    if (!user || stopped) return;
+
+    channel = supabase.channel('online-users', {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        onlineUserIds = new Set(Object.keys(channel?.presenceState() || {}));
+        notifyOnline();
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED' && AppState.currentState === 'active') {
+          track();
+        }
+      });
+  });
+
+  // Users in the background aren't shown as online
+  const subscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      track();
+    } else {
+      channel?.untrack();
+    }
+  });
+
+  return () => {
+    stopped = true;
+    subscription.remove();
+    channel?.unsubscribe();
+    onlineUserIds = new Set();
+    notifyOnline();
+  };
+}
+
+export function useOnlineUsers() {
+  const [userIds, setUserIds] = useState(onlineUserIds);
+
+  useEffect(() => {
+    onlineListeners.add(setUserIds);
+    setUserIds(onlineUserIds);
+
+    return () => {
+      onlineListeners.delete(setUserIds);
+    };
+  }, []);
+
+  return userIds;
+}
+
+// Total of unread messages across conversations, kept live for tab badges
+export function useUnreadCount() {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let stopped = false;
+
+    async function refresh() {
+      try {
+        setCount(await fetchUnreadMessageCount());
+      } catch (error) {
+        console.warn('Error loading unread count:', error);
+      }
+    }
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || stopped) return;
+
+      refresh();
+      channel = supabase
+        .channel('unread-count')
+        .on('postgres_changes', {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `user_id=eq.${user.id}`,
+        }, refresh)
+        .subscribe();
+    });
+
+    return () => {
+      stopped = true;
+      channel?.unsubscribe();
+    };
+  }, []);
+
+  return count;
+}
+
+// Listens to new messages, read receipts and typing notices of one
+// conversation
+export function useConversationChannel(
+  conversationId: string | null,
+  currentUser: TypingUser | null,
+  onMessage: (message: ConversationMessage) => void
+) {
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [readStates, setReadStates] = useState<Record<string, string | null>>({});
+  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const currentUserRef = useRef(currentUser);
+  currentUserRef.current = currentUser;
+  const lastTypingSentAt = useRef(0);
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const clearTyping = useCallback((userId: string) => {
+    const timer = typingTimers.current.get(userId);
+    if (timer) clearTimeout(timer);
+    typingTimers.current.delete(userId);
+    setTypingUsers(prev => prev.filter(user => user.userId !== userId));
+  }, []);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const timers = typingTimers.current;
+    let active = true;
+
+    // Updates that arrive while loading are newer, so they win
+    fetchReadStates(conversationId)
+      .then(states => {
+        if (active) setReadStates(prev => ({ ...states, ...prev }));
+      })
+      .catch(error => console.warn('Error loading read receipts:', error));
+
+    // Private, so only participants can join and send typing notices
+    const channel = supabase
+      .channel(`conversation-${conversationId}`, { config: { private: true } })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=eq.${conversationId}`,
+      }, payload => {
+        const message = payload.new as ConversationMessage;
+        clearTyping(message.sender_id);
+        onMessageRef.current(message);
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'conversation_participants',
+        filter: `conversation_id=eq.${conversationId}`,
+      }, payload => {
+        const participant = payload.new as { user_id: string; last_read_at: string | null };
+        setReadStates(prev => ({ ...prev, [participant.user_id]: participant.last_read_at }));
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const user = payload as TypingUser & { typing: boolean };
+        if (!user.typing) {
+          clearTyping(user.userId);
+          return;
+        }
+
+        const timer = timers.get(user.userId);
+        if (timer) clearTimeout(timer);
+        timers.set(user.userId, setTimeout(() => clearTyping(user.userId), TYPING_TIMEOUT_MS));
+
+        setTypingUsers(prev => [
+          ...prev.filter(item => item.userId !== user.userId),
+          { userId: user.userId, username: user.username },
+        ]);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+    lastTypingSentAt.current = 0;
+
+    return () => {
+      active = false;
+      channelRef.current = null;
+      channel.unsubscribe();
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      setTypingUsers([]);
+      setReadStates({});
+    };
+  }, [conversationId, clearTyping]);
+
+  // Call on every change of the message input; pass false once the user
+  // sends the message or clears the input
+  const notifyTyping = useCallback((typing = true) => {
+    const user = currentUserRef.current;
+    if (!channelRef.current || !user) return;
+
+    const now = Date.now();
+    if (typing && now - lastTypingSentAt.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentAt.current = typing ? now : 0;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { ...user, typing },
+    });
+  }, []);
+
+  return { typingUsers, readStates, notifyTyping };
+}
+
+export function getMessageReceipt(
+  message: ConversationMessage,
+  readStates: Record<string, string | null>,
+  currentUserId: string | null
+): MessageReceipt {
+  const createdAt = new Date(message.created_at).getTime();
+  const readers = Object.entries(readStates).filter(([userId]) => userId !== currentUserId);
+  const readByAll = readers.length > 0 && readers.every(([, lastReadAt]) =>
+    !!lastReadAt && new Date(lastReadAt).getTime() >= createdAt
+  );
+  return readByAll ? 'read' : 'delivered';
+}
+
+export function getTypingText(typingUsers: TypingUser[], isGroup: boolean) {
+  if (typingUsers.length === 0) return null;
+  if (!isGroup) return 'typing…';
+
+  const names = typingUsers.map(user => user.username || 'Someone');
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+}
@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+
+export interface VideoComment {
+  id: string;
+  video_id: string;
+  user_id: string;
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  username: string | null;
+  avatar_url: string | null;
+  reply_count: number;
+}
+
+export const COMMENTS_PAGE_SIZE = 20;
+
+export async function fetchComments(
+  videoId: string,
+  options: { parentId?: string | null; after?: VideoComment | null } = {}
+): Promise<VideoComment[]> {
+  const { data, error } = await supabase.rpc('get_video_comments', {
+    p_video_id: videoId,
+    p_parent_id: options.parentId ?? null,
+    cursor_created_at: options.after?.created_at ?? null,
+    cursor_id: options.after?.id ?? null,
+    page_size: COMMENTS_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((comment: VideoComment) => ({
+    ...comment,
+    reply_count: Number(comment.reply_count) || 0,
+  }));
+}
+
+export async function postComment(
+  videoId: string,
+  userId: string,
+  content: string,
+  parentId: string | null = null
+) {
+  const { data, error } = await supabase
+    .from('video_comments')
+    .insert({
+      video_id: videoId,
+      user_id: userId,
+      content: content.trim(),
+      parent_id: parentId,
+    })
+    .select('id, video_id, user_id, parent_id, content, created_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteComment(commentId: string, userId: string) {
+  const { error } = await supabase
+    .from('video_comments')
+    .delete()
+    .eq('id', commentId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function fetchCommentCount(videoId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('videos')
+    .select('comment_count')
+    .eq('id', videoId)
+    .single();
+
+  if (error) throw error;
+  return data?.comment_count || 0;
+}
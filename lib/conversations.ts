@@ -0,0 +1,374 @@
+import { Platform } from 'react-native';
+import { v4 as uuidv4 } from 'uuid';
+import 'react-native-get-random-values';
+import { supabase } from './supabase';
+
+export type ConversationRole = 'member' | 'admin';
+
+export type MessageAttachmentType = 'image' | 'video' | 'shared_video';
+
+export interface Conversation {
+  id: string;
+  is_group: boolean;
+  group_name: string | null;
+  group_avatar_url: string | null;
+  // Role of the current user
+  role: ConversationRole;
+  member_count: number;
+  last_message_id: string | null;
+  last_message_content: string | null;
+  last_message_attachment_type: MessageAttachmentType | null;
+  last_message_sender_id: string | null;
+  last_message_sender_username: string | null;
+  last_message_at: string;
+  unread_count: number;
+  // The other participant of a direct conversation
+  other_user_id: string | null;
+  username: string | null;
+  avatar_url: string | null;
+}
+
+export interface ConversationMember {
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  role: ConversationRole;
+  joined_at: string;
+}
+
+export interface SharedVideo {
+  id: string;
+  title: string;
+  thumbnail_url: string | null;
+  user_id: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  // Empty when the message only has an attachment
+  content: string | null;
+  read: boolean;
+  created_at: string;
+  attachment_type: MessageAttachmentType | null;
+  // Files in the private message-attachments bucket
+  attachment_path: string | null;
+  attachment_thumbnail_path: string | null;
+  shared_video_id: string | null;
+  // Loaded with the message; null once the shared video is deleted or the
+  // user can't see it
+  shared_video?: SharedVideo | null;
+}
+
+export interface MessageSender {
+  username: string | null;
+  avatar_url: string | null;
+}
+
+export interface ConversationMessageWithSender extends ConversationMessage {
+  profiles: MessageSender;
+}
+
+export interface MessageAttachment {
+  type: MessageAttachmentType;
+  path?: string;
+  thumbnailPath?: string | null;
+  videoId?: string;
+}
+
+export const CONVERSATIONS_PAGE_SIZE = 20;
+
+export const MESSAGES_PAGE_SIZE = 30;
+
+// member_count is a bigint, which PostgREST returns as a string for large values
+interface ConversationRow extends Omit<Conversation, 'member_count' | 'unread_count'> {
+  member_count: number | string | null;
+  unread_count: number | null;
+}
+
+interface MessageRow extends Omit<ConversationMessage, 'shared_video'> {
+  username: string | null;
+  avatar_url: string | null;
+  shared_video_title: string | null;
+  shared_video_thumbnail_url: string | null;
+  shared_video_user_id: string | null;
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    ...row,
+    unread_count: Number(row.unread_count) || 0,
+    member_count: Number(row.member_count) || 0,
+  };
+}
+
+function toConversationMessage({
+  username,
+  avatar_url,
+  shared_video_title,
+  shared_video_thumbnail_url,
+  shared_video_user_id,
+  ...message
+}: MessageRow): ConversationMessageWithSender {
+  return {
+    ...message,
+    // Without a title the shared video is deleted or hidden from the user
+    shared_video: message.shared_video_id && shared_video_title && shared_video_user_id
+      ? {
+        id: message.shared_video_id,
+        title: shared_video_title,
+        thumbnail_url: shared_video_thumbnail_url,
+        user_id: shared_video_user_id,
+      }
+      : null,
+    profiles: { username, avatar_url },
+  };
+}
+
+export function getConversationTitle(conversation: Conversation) {
+  if (conversation.is_group) return conversation.group_name || 'Group';
+  return conversation.username || `user_${conversation.other_user_id?.slice(0, 8)}`;
+}
+
+export function getConversationAvatar(conversation: Conversation) {
+  return conversation.is_group ? conversation.group_avatar_url : conversation.avatar_url;
+}
+
+// Conversations of the current user, most recently active first
+export async function fetchConversations(
+  after: Conversation | null = null
+): Promise<Conversation[]> {
+  const { data, error } = await supabase.rpc('get_conversations', {
+    cursor_last_message_at: after?.last_message_at ?? null,
+    cursor_id: after?.id ?? null,
+    page_size: CONVERSATIONS_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  return (data || []).map(toConversation);
+}
+
+export async function fetchConversation(conversationId: string): Promise<Conversation | null> {
+  const { data, error } = await supabase.rpc('get_conversations', {
+    conversation_id: conversationId,
+    page_size: 1,
+  });
+
+  if (error) throw error;
+  return data?.[0] ? toConversation(data[0]) : null;
+}
+
+// Returns the id of the conversation with another user, creating it if needed
+export async function getDirectConversation(otherUserId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('get_or_create_direct_conversation', {
+    other_user_id: otherUserId,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Creates a group with the current user as its admin and returns its id
+export async function createGroupConversation(
+  name: string,
+  memberIds: string[],
+  avatarUrl: string | null = null
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_group_conversation', {
+    name: name.trim(),
+    member_ids: memberIds,
+    avatar_url: avatarUrl,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateGroupConversation(
+  conversationId: string,
+  name: string,
+  avatarUrl: string | null
+) {
+  const { error } = await supabase.rpc('update_group_conversation', {
+    conversation_id: conversationId,
+    name: name.trim(),
+    avatar_url: avatarUrl,
+  });
+
+  if (error) throw error;
+}
+
+// Group avatars live next to profile pictures in the public avatars bucket
+export async function uploadGroupAvatar(
+  userId: string,
+  image: { uri: string; mimeType?: string | null }
+): Promise<string> {
+  const contentType = image.mimeType || 'image/jpeg';
+  const fileName = `${uuidv4()}.${contentType.split('/')[1]}`;
+  const filePath = `groups/${userId}/${fileName}`;
+
+  let fileData: Blob | FormData;
+  if (Platform.OS === 'web') {
+    const response = await fetch(image.uri);
+    fileData = await response.blob();
+  } else {
+    // React Native reads the local file when the request is sent
+    fileData = new FormData();
+    fileData.append('file', {
+      uri: image.uri,
+      type: contentType,
+      name: fileName,
+    } as unknown as Blob);
+  }
+
+  const { error } = await supabase.storage
+    .from('avatars')
+    .upload(filePath, fileData, { contentType });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('avatars')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+}
+
+export async function fetchConversationMembers(conversationId: string): Promise<ConversationMember[]> {
+  const { data, error } = await supabase.rpc('get_conversation_members', {
+    conversation_id: conversationId,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function addConversationMembers(conversationId: string, memberIds: string[]) {
+  const { error } = await supabase.rpc('add_conversation_members', {
+    conversation_id: conversationId,
+    member_ids: memberIds,
+  });
+
+  if (error) throw error;
+}
+
+// Removing the current user leaves the group
+export async function removeConversationMember(conversationId: string, memberId: string) {
+  const { error } = await supabase.rpc('remove_conversation_member', {
+    conversation_id: conversationId,
+    member_id: memberId,
+  });
+
+  if (error) throw error;
+}
+
+export async function setConversationMemberRole(
+  conversationId: string,
+  memberId: string,
+  role: ConversationRole
+) {
+  const { error } = await supabase.rpc('set_conversation_member_role', {
+    conversation_id: conversationId,
+    member_id: memberId,
+    role,
+  });
+
+  if (error) throw error;
+}
+
+// Messages sent before the given one, oldest first, or the latest ones
+// without it
+export async function fetchConversationMessages(
+  conversationId: string,
+  before: ConversationMessage | null = null
+): Promise<ConversationMessageWithSender[]> {
+  const { data, error } = await supabase.rpc('get_conversation_messages', {
+    p_conversation_id: conversationId,
+    cursor_created_at: before?.created_at ?? null,
+    cursor_id: before?.id ?? null,
+    page_size: MESSAGES_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  const rows: MessageRow[] = data || [];
+  return rows.map(toConversationMessage).reverse();
+}
+
+// Realtime only sends the message row, without the sender and shared video
+export async function fetchConversationMessage(
+  conversationId: string,
+  messageId: string
+): Promise<ConversationMessageWithSender | null> {
+  const { data, error } = await supabase.rpc('get_conversation_messages', {
+    p_conversation_id: conversationId,
+    p_message_id: messageId,
+    page_size: 1,
+  });
+
+  if (error) throw error;
+  return data?.[0] ? toConversationMessage(data[0]) : null;
+}
+
+export async function sendConversationMessage(
+  conversation: Conversation,
+  senderId: string,
+  content: string,
+  attachment: MessageAttachment | null = null
+) {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversation.id,
+      sender_id: senderId,
+      receiver_id: conversation.other_user_id,
+      content: content.trim() || null,
+      attachment_type: attachment?.type ?? null,
+      attachment_path: attachment?.path ?? null,
+      attachment_thumbnail_path: attachment?.thumbnailPath ?? null,
+      shared_video_id: attachment?.videoId ?? null,
+    });
+
+  if (error) throw error;
+}
+
+// Marks messages up to the given time as read, or all of them without one
+export async function markConversationRead(conversationId: string, readUntil: string | null = null) {
+  const { error } = await supabase.rpc('mark_conversation_read', {
+    conversation_id: conversationId,
+    read_until: readUntil,
+  });
+
+  if (error) throw error;
+}
+
+// When each participant last read the conversation, keyed by user id
+export async function fetchReadStates(conversationId: string): Promise<Record<string, string | null>> {
+  const { data, error } = await supabase
+    .from('conversation_participants')
+    .select('user_id, last_read_at')
+    .eq('conversation_id', conversationId);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.user_id, row.last_read_at]));
+}
+
+export async function fetchUnreadMessageCount(): Promise<number> {
+  const { data, error } = await supabase.rpc('get_unread_message_count');
+
+  if (error) throw error;
+  return data || 0;
+}
+
+// Inserts or moves a conversation to its place in a list ordered by activity
+export function upsertConversation(list: Conversation[], conversation: Conversation) {
+  const rest = list.filter(item => item.id !== conversation.id);
+  const time = new Date(conversation.last_message_at).getTime();
+  const index = rest.findIndex(item => {
+    const itemTime = new Date(item.last_message_at).getTime();
+    return itemTime < time || (itemTime === time && item.id < conversation.id);
+  });
+  if (index === -1) return [...rest, conversation];
+  return [...rest.slice(0, index), conversation, ...rest.slice(index)];
+}
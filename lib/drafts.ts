@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { VideoVisibility } from './videos';
+
+export interface DraftVideo {
+  uri: string;
+  duration: number;
+  type: string;
+  size?: number;
+}
+
+export interface DraftLocation {
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface VideoDraft {
+  id: string;
+  video: DraftVideo | null;
+  title: string;
+  description: string;
+  location: DraftLocation | null;
+  thumbnailUri: string | null;
+  thumbnailTime: number;
+  // Missing on drafts saved before videos had visibility settings
+  visibility?: VideoVisibility;
+  publishAt?: string | null;
+  updatedAt: number;
+}
+
+const DRAFTS_STORAGE_KEY = 'video-drafts';
+
+let drafts: VideoDraft[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<(drafts: VideoDraft[]) => void>();
+
+function notify() {
+  const snapshot = [...drafts];
+  listeners.forEach(listener => listener(snapshot));
+}
+
+async function persistDrafts() {
+  try {
+    await AsyncStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    console.warn('Error saving drafts:', error);
+  }
+}
+
+function loadDrafts() {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(DRAFTS_STORAGE_KEY);
+        drafts = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.warn('Error loading drafts:', error);
+        drafts = [];
+      }
+      notify();
+    })();
+  }
+  return loadPromise;
+}
+
+// Inserts or replaces a draft and moves it to the top of the list
+export async function saveDraft(draft: Omit<VideoDraft, 'updatedAt'>) {
+  await loadDrafts();
+
+  drafts = [
+    { ...draft, updatedAt: Date.now() },
+    ...drafts.filter(item => item.id !== draft.id),
+  ];
+  notify();
+  await persistDrafts();
+}
+
+export async function deleteDraft(id: string) {
+  await loadDrafts();
+
+  drafts = drafts.filter(draft => draft.id !== id);
+  notify();
+  await persistDrafts();
+}
+
+async function fileExists(uri: string) {
+  try {
+    return (await FileSystem.getInfoAsync(uri)).exists;
+  } catch {
+    return false;
+  }
+}
+
+// The picker keeps files in a cache the system may clear, so a draft can
+// outlive its video and cover. Missing files are left out of the returned
+// draft so the user picks them again.
+export async function checkDraftFiles(draft: VideoDraft): Promise<VideoDraft> {
+  if (!draft.video) return draft;
+
+  const videoExists = await fileExists(draft.video.uri);
+  const thumbnailExists = videoExists && !!draft.thumbnailUri && await fileExists(draft.thumbnailUri);
+
+  return {
+    ...draft,
+    video: videoExists ? draft.video : null,
+    thumbnailUri: thumbnailExists ? draft.thumbnailUri : null,
+  };
+}
+
+export function useDrafts() {
+  const [items, setItems] = useState<VideoDraft[]>(drafts);
+
+  useEffect(() => {
+    listeners.add(setItems);
+    loadDrafts().then(() => setItems([...drafts]));
+
+    return () => {
+      listeners.delete(setItems);
+    };
+  }, []);
+
+  return items;
+}
@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import { VideoRow, VideoWithProfile, toVideoWithProfile } from './videos';
+
+export type FeedMode = 'forYou' | 'following';
+
+export interface FeedVideo extends VideoWithProfile {
+  tags: string[];
+  score: number | null;
+}
+
+// Opaque position in a feed. The For You feed is ranked once when it is
+// opened, so it pages by position through the ranking taken at `feedTime`.
+export interface FeedCursor {
+  feedTime?: string;
+  createdAt?: string;
+  position?: number;
+  id?: string;
+}
+
+export interface FeedPage {
+  videos: FeedVideo[];
+  nextCursor: FeedCursor | null;
+}
+
+export const FEED_PAGE_SIZE = 10;
+
+interface FeedRow extends VideoRow {
+  tags: string[] | null;
+  score?: number | null;
+  // Place in the For You ranking
+  rank_position?: number;
+}
+
+function toFeedVideo({ tags, score, rank_position, ...row }: FeedRow): FeedVideo {
+  return {
+    ...toVideoWithProfile(row),
+    tags: tags || [],
+    score: score ?? null,
+  };
+}
+
+export async function fetchFeedPage(
+  mode: FeedMode,
+  cursor: FeedCursor | null = null,
+  pageSize = FEED_PAGE_SIZE
+): Promise<FeedPage> {
+  if (mode === 'following') {
+    const { data, error } = await supabase.rpc('get_following_feed', {
+      page_size: pageSize,
+      cursor_created_at: cursor?.createdAt ?? null,
+      cursor_id: cursor?.id ?? null,
+    });
+
+    if (error) throw error;
+
+    const rows: FeedRow[] = data || [];
+    const last = rows[rows.length - 1];
+
+    return {
+      videos: rows.map(toFeedVideo),
+      nextCursor: rows.length === pageSize
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    };
+  }
+
+  const feedTime = cursor?.feedTime ?? new Date().toISOString();
+  const { data, error } = await supabase.rpc('get_for_you_feed', {
+    page_size: pageSize,
+    feed_time: feedTime,
+    cursor_position: cursor?.position ?? null,
+  });
+
+  if (error) throw error;
+
+  const rows: FeedRow[] = data || [];
+  const last = rows[rows.length - 1];
+
+  return {
+    videos: rows.map(toFeedVideo),
+    nextCursor: rows.length === pageSize
+      ? { feedTime, position: last.rank_position }
+      : null,
+  };
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { supabase } from './supabase';
+
+export type InteractionKind = 'like' | 'bookmark';
+
+export interface VideoInteraction {
+  isLiked: boolean;
+  isBookmarked: boolean;
+  likeCount: number;
+  bookmarkCount: number;
+}
+
+// What this user last wrote for one kind of interaction on one video
+interface SyncState {
+  // Value the user currently wants
+  desired: boolean;
+  // Value the server is known to have
+  confirmed: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  inFlight: boolean;
+  // Count that arrived from the server while a write was running, applied
+  // once the write settles
+  deferredCount: number | null;
+}
+
+// Rapid toggles within this window are collapsed into a single write
+const SYNC_DELAY_MS = 400;
+
+const KIND_CONFIG = {
+  like: { table: 'video_likes', flag: 'isLiked', count: 'likeCount' },
+  bookmark: { table: 'video_bookmarks', flag: 'isBookmarked', count: 'bookmarkCount' },
+} as const;
+
+let interactions: Record<string, VideoInteraction> = {};
+const syncStates = new Map<string, SyncState>();
+const listeners = new Set<(interactions: Record<string, VideoInteraction>) => void>();
+
+function notify() {
+  const snapshot = interactions;
+  listeners.forEach(listener => listener(snapshot));
+}
+
+function getInteraction(videoId: string): VideoInteraction {
+  return interactions[videoId] || { isLiked: false, isBookmarked: false, likeCount: 0, bookmarkCount: 0 };
+}
+
+function updateInteraction(videoId: string, changes: Partial<VideoInteraction>) {
+  interactions = { ...interactions, [videoId]: { ...getInteraction(videoId), ...changes } };
+  notify();
+}
+
+function getSyncKey(videoId: string, kind: InteractionKind) {
+  return `${kind}:${videoId}`;
+}
+
+// Unsynced local change still to be added on top of a server count
+function getPendingDelta(sync: SyncState | undefined) {
+  if (!sync || sync.desired === sync.confirmed) return 0;
+  return sync.desired ? 1 : -1;
+}
+
+function isSyncing(sync: SyncState | undefined) {
+  return !!sync && (sync.inFlight || sync.timer !== null || sync.desired !== sync.confirmed);
+}
+
+// Seeds counts from freshly loaded videos. Videos with a toggle that hasn't
+// reached the server keep their optimistic counts.
+export function seedVideoCounts(videos: { id: string; like_count?: number; bookmark_count?: number }[]) {
+  videos.forEach(video => {
+    const changes: Partial<VideoInteraction> = {};
+    if (!isSyncing(syncStates.get(getSyncKey(video.id, 'like')))) {
+      changes.likeCount = video.like_count || 0;
+    }
+    if (!isSyncing(syncStates.get(getSyncKey(video.id, 'bookmark')))) {
+      changes.bookmarkCount = video.bookmark_count || 0;
+    }
+    interactions = { ...interactions, [video.id]: { ...getInteraction(video.id), ...changes } };
+  });
+  notify();
+}
+
+// Loads whether the user liked and bookmarked the given videos
+export async function loadInteractions(userId: string, videoIds: string[]) {
+  if (videoIds.length === 0) return;
+
+  const [likes, bookmarks] = await Promise.all([
+    supabase.from('video_likes').select('video_id').eq('user_id', userId).in('video_id', videoIds),
+    supabase.from('video_bookmarks').select('video_id').eq('user_id', userId).in('video_id', videoIds),
+  ]);
+
+  if (likes.error) throw likes.error;
+  if (bookmarks.error) throw bookmarks.error;
+
+  const liked = new Set(likes.data.map(like => like.video_id));
+  const bookmarked = new Set(bookmarks.data.map(bookmark => bookmark.video_id));
+
+  videoIds.forEach(videoId => {
+    const changes: Partial<VideoInteraction> = {};
+    (['like', 'bookmark'] as const).forEach(kind => {
+      const value = kind === 'like' ? liked.has(videoId) : bookmarked.has(videoId);
+      const sync = syncStates.get(getSyncKey(videoId, kind));
+      if (sync) {
+        sync.confirmed = value;
+        // A toggle the user made while this was loading wins
+        if (isSyncing(sync)) return;
+        sync.desired = value;
+      }
+      changes[KIND_CONFIG[kind].flag] = value;
+    });
+    interactions = { ...interactions, [videoId]: { ...getInteraction(videoId), ...changes } };
+  });
+  notify();
+}
+
+// Applies counts from a realtime update of the videos row
+export function applyServerCounts(videoId: string, counts: { like_count?: number; bookmark_count?: number }) {
+  if (!interactions[videoId]) return;
+
+  const changes: Partial<VideoInteraction> = {};
+  (['like', 'bookmark'] as const).forEach(kind => {
+    const serverCount = kind === 'like' ? counts.like_count : counts.bookmark_count;
+    if (serverCount == null) return;
+
+    const sync = syncStates.get(getSyncKey(videoId, kind));
+    if (sync?.inFlight) {
+      // The update may or may not include the running write, so it is
+      // applied once the write has settled
+      sync.deferredCount = serverCount;
+      return;
+    }
+    changes[KIND_CONFIG[kind].count] = Math.max(0, serverCount + getPendingDelta(sync));
+  });
+
+  updateInteraction(videoId, changes);
+}
+
+async function flush(videoId: string, kind: InteractionKind) {
+  const sync = syncStates.get(getSyncKey(videoId, kind));
+  if (!sync) return;
+  sync.timer = null;
+
+  if (sync.inFlight || sync.desired === sync.confirmed) return;
+
+  const { table, count } = KIND_CONFIG[kind];
+  const value = sync.desired;
+  sync.inFlight = true;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    // Writes are idempotent, so a retried or duplicated toggle can't fail on
+    // the unique constraint or remove someone else's row
+    const { error } = value
+      ? await supabase
+          .from(table)
+          .upsert({ video_id: videoId, user_id: user.id }, { onConflict: 'video_id,user_id', ignoreDuplicates: true })
+      : await supabase
+          .from(table)
+          .delete()
+          .eq('video_id', videoId)
+          .eq('user_id', user.id);
+
+    if (error) throw error;
+    sync.confirmed = value;
+  } catch (error) {
+    console.error(`Error saving ${kind}:`, error);
+
+    // Roll back every toggle made since the last confirmed value
+    const current = getInteraction(videoId);
+    const delta = getPendingDelta(sync);
+    sync.desired = sync.confirmed;
+    if (sync.timer) {
+      clearTimeout(sync.timer);
+      sync.timer = null;
+    }
+    updateInteraction(videoId, {
+      [KIND_CONFIG[kind].flag]: sync.confirmed,
+      [count]: Math.max(0, current[count] - delta),
+    });
+  } finally {
+    sync.inFlight = false;
+  }
+
+  if (sync.deferredCount !== null) {
+    updateInteraction(videoId, {
+      [count]: Math.max(0, sync.deferredCount + getPendingDelta(sync)),
+    });
+    sync.deferredCount = null;
+  }
+
+  // The user toggled again while the write was running
+  if (sync.desired !== sync.confirmed && !sync.timer) {
+    flush(videoId, kind);
+  }
+}
+
+function toggle(videoId: string, kind: InteractionKind, value?: boolean) {
+  const { flag, count } = KIND_CONFIG[kind];
+  const current = getInteraction(videoId);
+  const next = value ?? !current[flag];
+  if (next === current[flag]) return;
+
+  const key = getSyncKey(videoId, kind);
+  let sync = syncStates.get(key);
+  if (!sync) {
+    sync = { desired: current[flag], confirmed: current[flag], timer: null, inFlight: false, deferredCount: null };
+    syncStates.set(key, sync);
+  }
+
+  sync.desired = next;
+  updateInteraction(videoId, {
+    [flag]: next,
+    [count]: Math.max(0, current[count] + (next ? 1 : -1)),
+  });
+
+  if (sync.timer) clearTimeout(sync.timer);
+  sync.timer = setTimeout(() => flush(videoId, kind), SYNC_DELAY_MS);
+}
+
+// Pass a value to set the like instead of toggling it, e.g. double tap to like
+export function toggleLike(videoId: string, value?: boolean) {
+  toggle(videoId, 'like', value);
+}
+
+export function toggleBookmark(videoId: string, value?: boolean) {
+  toggle(videoId, 'bookmark', value);
+}
+
+export function useInteractions() {
+  const [items, setItems] = useState(interactions);
+
+  useEffect(() => {
+    listeners.add(setItems);
+    setItems(interactions);
+
+    return () => {
+      listeners.delete(setItems);
+    };
+  }, []);
+
+  return items;
+}
@@ -0,0 +1,140 @@
+import { Platform } from 'react-native';
+import { v4 as uuidv4 } from 'uuid';
+import 'react-native-get-random-values';
+import { supabase } from './supabase';
+import { generateThumbnail } from './thumbnails';
+import { getVideoContentType, getVideoExtension, validateVideo } from './videoProcessing';
+import { MessageAttachment, MessageAttachmentType } from './conversations';
+
+// A photo or video picked from the device, before it is uploaded
+export interface LocalAttachment {
+  type: 'image' | 'video';
+  uri: string;
+  mimeType?: string | null;
+  // Seconds, for videos
+  duration: number;
+  size?: number;
+}
+
+const BUCKET = 'message-attachments';
+
+// Matches the file size limit of the bucket
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024; // 50MB
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+// Attachments are private, so they are shown through links that expire
+const SIGNED_URL_TTL = 60 * 60;
+
+// Shown instead of the text of messages that only have an attachment
+export function getAttachmentLabel(type: MessageAttachmentType) {
+  switch (type) {
+    case 'image':
+      return 'Photo';
+    case 'video':
+      return 'Video';
+    case 'shared_video':
+      return 'Shared a video';
+  }
+}
+
+// Returns why a picked file can't be sent, or null when it can
+export async function validateAttachment(file: LocalAttachment): Promise<string | null> {
+  if (file.type === 'video') {
+    return validateVideo(file, { maxSize: MAX_ATTACHMENT_SIZE });
+  }
+
+  if (!IMAGE_TYPES.includes(file.mimeType || 'image/jpeg')) {
+    return 'Unsupported image format. Please choose a JPEG, PNG, WebP or HEIC photo.';
+  }
+
+  if (file.size && file.size > MAX_ATTACHMENT_SIZE) {
+    return `Photo must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`;
+  }
+
+  return null;
+}
+
+async function uploadFile(filePath: string, uri: string, contentType: string) {
+  let fileData: Blob | FormData;
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    fileData = await response.blob();
+  } else {
+    // React Native reads the local file when the request is sent
+    fileData = new FormData();
+    fileData.append('file', {
+      uri,
+      type: contentType,
+      name: filePath.split('/').pop(),
+    } as unknown as Blob);
+  }
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(filePath, fileData, { contentType });
+
+  if (error) throw error;
+}
+
+// Files are stored per conversation and sender, which is what the storage
+// policies check
+export async function uploadMessageAttachment(
+  conversationId: string,
+  userId: string,
+  file: LocalAttachment
+): Promise<MessageAttachment> {
+  const folder = `${conversationId}/${userId}`;
+  const id = uuidv4();
+
+  if (file.type === 'image') {
+    const contentType = file.mimeType || 'image/jpeg';
+    const path = `${folder}/${id}.${contentType.split('/')[1]}`;
+    await uploadFile(path, file.uri, contentType);
+    return { type: 'image', path };
+  }
+
+  const contentType = getVideoContentType(file.uri, file.mimeType) || 'video/mp4';
+  const path = `${folder}/${id}.${getVideoExtension(contentType)}`;
+  await uploadFile(path, file.uri, contentType);
+
+  // The video can still be sent without a preview frame
+  let thumbnailPath: string | null = null;
+  try {
+    const thumbnailUri = await generateThumbnail(file.uri);
+    thumbnailPath = `${folder}/${id}.jpg`;
+    await uploadFile(thumbnailPath, thumbnailUri, 'image/jpeg');
+  } catch (error) {
+    console.warn('Error uploading video thumbnail:', error);
+    thumbnailPath = null;
+  }
+
+  return { type: 'video', path, thumbnailPath };
+}
+
+// Cleans up the files of a message that failed to send
+export async function removeMessageAttachment(attachment: MessageAttachment) {
+  const paths = [attachment.path, attachment.thumbnailPath].filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(BUCKET).remove(paths);
+  if (error) throw error;
+}
+
+// Temporary links to attachment files, keyed by path
+export async function signAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  const uniquePaths = [...new Set(paths)];
+  if (uniquePaths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(uniquePaths, SIGNED_URL_TTL);
+
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  (data || []).forEach(item => {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  });
+  return urls;
+}
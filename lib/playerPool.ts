@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Decoded players are expensive, so only this many feed items keep one.
+// The rest show their thumbnail until they come close to the screen.
+export const MAX_POOLED_PLAYERS = 3;
+
+// Offsets from the current video in the order they get a player: the next
+// video is preloaded first, then the previous one for scrolling back. The
+// video after next only gets the player the first video has no use for.
+const POOL_PRIORITY = [0, 1, -1, 2];
+
+const MUTED_STORAGE_KEY = 'feed-muted';
+
+export interface PooledPlayer {
+  play(): void;
+  pause(): void;
+  setMuted(muted: boolean): void;
+}
+
+export interface PlayerControllerState {
+  activeId: string | null;
+  paused: boolean;
+  muted: boolean;
+}
+
+export interface PlayerController {
+  register(id: string, player: PooledPlayer): void;
+  unregister(id: string, player: PooledPlayer): void;
+  // Plays the given video and pauses every other registered player
+  activate(id: string | null): void;
+  pause(): void;
+  resume(): void;
+  togglePlayback(): void;
+  setMuted(muted: boolean): void;
+  getState(): PlayerControllerState;
+  subscribe(listener: (state: PlayerControllerState) => void): () => void;
+}
+
+// Indexes of the feed items that should have a mounted player
+export function getPooledIndexes(currentIndex: number, count: number, maxPlayers = MAX_POOLED_PLAYERS): Set<number> {
+  const indexes = new Set<number>();
+
+  for (const offset of POOL_PRIORITY) {
+    if (indexes.size >= maxPlayers) break;
+    const index = currentIndex + offset;
+    if (index >= 0 && index < count) {
+      indexes.add(index);
+    }
+  }
+
+  return indexes;
+}
+
+export function createPlayerController(initialState: Partial<PlayerControllerState> = {}): PlayerController {
+  const players = new Map<string, PooledPlayer>();
+  const listeners = new Set<(state: PlayerControllerState) => void>();
+  let state: PlayerControllerState = { activeId: null, paused: false, muted: false, ...initialState };
+
+  function setState(changes: Partial<PlayerControllerState>) {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  }
+
+  // Only the active player is ever playing, so the rest are paused on every
+  // change rather than tracked individually
+  function apply(id: string, player: PooledPlayer) {
+    player.setMuted(state.muted);
+    if (id === state.activeId && !state.paused) {
+      player.play();
+    } else {
+      player.pause();
+    }
+  }
+
+  function applyAll() {
+    players.forEach((player, id) => apply(id, player));
+  }
+
+  return {
+    register(id, player) {
+      players.set(id, player);
+      apply(id, player);
+    },
+    unregister(id, player) {
+      // A remounted item may already have registered its new player
+      if (players.get(id) === player) {
+        players.delete(id);
+      }
+    },
+    activate(id) {
+      if (id === state.activeId) return;
+      setState({ activeId: id, paused: false });
+      applyAll();
+    },
+    pause() {
+      setState({ paused: true });
+      applyAll();
+    },
+    resume() {
+      setState({ paused: false });
+      applyAll();
+    },
+    togglePlayback() {
+      setState({ paused: !state.paused });
+      applyAll();
+    },
+    setMuted(muted) {
+      setState({ muted });
+      players.forEach(player => player.setMuted(muted));
+    },
+    getState() {
+      return state;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export async function loadMutedPreference(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(MUTED_STORAGE_KEY)) === 'true';
+  } catch (error) {
+    console.warn('Error loading mute preference:', error);
+    return false;
+  }
+}
+
+export async function saveMutedPreference(muted: boolean) {
+  try {
+    await AsyncStorage.setItem(MUTED_STORAGE_KEY, String(muted));
+  } catch (error) {
+    console.warn('Error saving mute preference:', error);
+  }
+}
+
+// One controller per screen, with its state mirrored for rendering
+export function usePlayerController(initialState?: Partial<PlayerControllerState>) {
+  const controllerRef = useRef<PlayerController | null>(null);
+  if (!controllerRef.current) {
+    controllerRef.current = createPlayerController(initialState);
+  }
+  const controller = controllerRef.current;
+  const [state, setState] = useState(controller.getState());
+
+  useEffect(() => controller.subscribe(setState), [controller]);
+
+  return { controller, ...state };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ViewToken } from 'react-native';
+import { supabase } from './supabase';
+import { applyServerCounts } from './interactions';
+
+export interface VideoCounts {
+  like_count: number;
+  bookmark_count: number;
+  comment_count: number;
+  share_count: number;
+}
+
+// Realtime filters take at most 100 values
+const MAX_WATCHED_VIDEOS = 100;
+
+// Scrolling changes the watched videos quickly, so resubscribing waits until
+// the list settles
+const RESUBSCRIBE_DELAY_MS = 500;
+
+let nextChannelId = 0;
+
+// Keeps the counters of the given videos live. Like and bookmark counts also
+// reach the shared interaction store.
+export function useRealtimeVideoCounts(
+  videoIds: string[],
+  onChange: (videoId: string, counts: VideoCounts) => void
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Order doesn't matter for the filter, so reordering doesn't resubscribe
+  const key = [...new Set(videoIds)].sort().slice(0, MAX_WATCHED_VIDEOS).join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    const timer = setTimeout(() => {
+      channel = supabase
+        .channel(`video-counts-${nextChannelId++}`)
+        .on('postgres_changes', {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'videos',
+          filter: `id=in.(${key})`,
+        }, payload => {
+          const row = payload.new as VideoCounts & { id: string };
+          const counts = {
+            like_count: row.like_count || 0,
+            bookmark_count: row.bookmark_count || 0,
+            comment_count: row.comment_count || 0,
+            share_count: row.share_count || 0,
+          };
+          applyServerCounts(row.id, counts);
+          onChangeRef.current(row.id, counts);
+        })
+        .subscribe();
+    }, RESUBSCRIBE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      channel?.unsubscribe();
+    };
+  }, [key]);
+}
+
+// Ids of the items a FlatList currently shows, for lists keyed by id
+export function useViewableIds() {
+  const [ids, setIds] = useState<string[]>([]);
+
+  // FlatList doesn't allow this callback to change between renders
+  const onViewableItemsChanged = useCallback(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    setIds(viewableItems.map(item => item.key));
+  }, []);
+
+  return { ids, onViewableItemsChanged };
+}
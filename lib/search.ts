@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+
+export interface VideoSearchResult {
+  id: string;
+  title: string;
+  description: string;
+  video_url: string;
+  thumbnail_url: string | null;
+  created_at: string;
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  like_count: number;
+}
+
+export interface ProfileSearchResult {
+  id: string;
+  username: string | null;
+  avatar_url: string | null;
+  follower_count: number;
+}
+
+export interface TagSearchResult {
+  tag: string;
+  video_count: number;
+}
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export async function searchVideos(
+  query: string,
+  offset = 0,
+  pageSize = SEARCH_PAGE_SIZE
+): Promise<VideoSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_videos', {
+    query,
+    page_size: pageSize,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function searchProfiles(
+  query: string,
+  offset = 0,
+  pageSize = SEARCH_PAGE_SIZE
+): Promise<ProfileSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_profiles', {
+    query,
+    page_size: pageSize,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function searchTags(
+  query: string,
+  offset = 0,
+  pageSize = SEARCH_PAGE_SIZE
+): Promise<TagSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_hashtags', {
+    query: query.replace(/^#/, ''),
+    page_size: pageSize,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return (data || []).map((result: TagSearchResult) => ({
+    ...result,
+    video_count: Number(result.video_count) || 0,
+  }));
+}
@@ -0,0 +1,48 @@
+import { Platform, Share } from 'react-native';
+import * as Linking from 'expo-linking';
+import { supabase } from './supabase';
+
+// Builds a link that opens the `video/[id]` route, e.g. myapp://video/<id>
+export function getVideoLink(videoId: string): string {
+  return Linking.createURL(`video/${videoId}`);
+}
+
+export async function recordShare(videoId: string, userId: string) {
+  const { error } = await supabase
+    .from('video_shares')
+    .insert({
+      video_id: videoId,
+      user_id: userId,
+    });
+
+  if (error) throw error;
+}
+
+// Opens the native share sheet and records a share when the user completes it.
+// Resolves to true when the video was shared.
+export async function shareVideo(
+  video: { id: string; title?: string | null },
+  userId: string | null
+): Promise<boolean> {
+  const url = getVideoLink(video.id);
+  const title = video.title || 'Check out this video';
+
+  const result = await Share.share(
+    Platform.OS === 'ios'
+      ? { message: title, url }
+      : { message: `${title}\n${url}`, title },
+    { dialogTitle: 'Share video' }
+  );
+
+  if (result.action !== Share.sharedAction) return false;
+
+  if (userId) {
+    try {
+      await recordShare(video.id, userId);
+    } catch (error) {
+      console.warn('Error recording share:', error);
+    }
+  }
+
+  return true;
+}
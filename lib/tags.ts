@@ -0,0 +1,69 @@
+import { supabase } from './supabase';
+
+export interface Tag {
+  id: string;
+  name: string;
+  video_count: number;
+}
+
+export interface TagVideo {
+  id: string;
+  title: string;
+  description: string;
+  video_url: string;
+  thumbnail_url: string | null;
+  created_at: string;
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  like_count: number;
+}
+
+export const TAG_VIDEOS_PAGE_SIZE = 21;
+
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+
+// Returns the unique, lowercased hashtags in a piece of text without the leading '#'
+export function extractHashtags(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const tags = new Set<string>();
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    tags.add(match[1].toLowerCase());
+  }
+  return Array.from(tags);
+}
+
+// Replaces the tags of a video with the hashtags found in its description
+export async function syncVideoTags(videoId: string, description: string | null | undefined) {
+  const { error } = await supabase.rpc('set_video_tags', {
+    video_id: videoId,
+    tag_names: extractHashtags(description),
+  });
+
+  if (error) throw error;
+}
+
+export async function fetchTag(name: string): Promise<Tag | null> {
+  const { data, error } = await supabase.rpc('get_tag', {
+    tag_name: name.replace(/^#/, ''),
+  });
+
+  if (error) throw error;
+  return data?.[0] || null;
+}
+
+export async function fetchTagVideos(
+  name: string,
+  offset = 0,
+  pageSize = TAG_VIDEOS_PAGE_SIZE
+): Promise<TagVideo[]> {
+  const { data, error } = await supabase.rpc('get_tag_videos', {
+    tag_name: name.replace(/^#/, ''),
+    page_size: pageSize,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,124 @@
+import { Platform } from 'react-native';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { v4 as uuidv4 } from 'uuid';
+import 'react-native-get-random-values';
+import { supabase } from './supabase';
+
+export const THUMBNAIL_FRAME_COUNT = 6;
+
+// Frame used as the cover until the user picks another one
+export const DEFAULT_THUMBNAIL_TIME = 1;
+
+const THUMBNAIL_QUALITY = 0.8;
+
+// Captures a single frame of a local video as a JPEG and returns its uri
+export async function generateThumbnail(videoUri: string, timeSeconds = DEFAULT_THUMBNAIL_TIME): Promise<string> {
+  if (Platform.OS === 'web') {
+    return captureWebFrame(videoUri, timeSeconds);
+  }
+
+  const { uri } = await VideoThumbnails.getThumbnailAsync(videoUri, {
+    time: Math.round(timeSeconds * 1000),
+    quality: THUMBNAIL_QUALITY,
+  });
+
+  return uri;
+}
+
+// Evenly spaced frames shown as the track of the cover scrubber
+export async function generateFrameStrip(
+  videoUri: string,
+  durationSeconds: number,
+  count = THUMBNAIL_FRAME_COUNT
+): Promise<string[]> {
+  const frames: string[] = [];
+
+  // Frames are captured one at a time, decoding several at once is slow on
+  // older devices
+  for (let i = 0; i < count; i++) {
+    frames.push(await generateThumbnail(videoUri, (durationSeconds * (i + 0.5)) / count));
+  }
+
+  return frames;
+}
+
+// Path of a new cover in the `video-thumbnails` bucket
+export function getThumbnailPath(userId: string) {
+  return `${userId}/${uuidv4()}.jpg`;
+}
+
+// Uploads to a path chosen up front, so uploading again replaces the file
+export async function uploadThumbnail(filePath: string, thumbnailUri: string): Promise<string> {
+  const fileName = filePath.split('/').pop();
+
+  let fileData: Blob | FormData;
+  if (Platform.OS === 'web') {
+    const response = await fetch(thumbnailUri);
+    fileData = await response.blob();
+  } else {
+    // React Native reads the local file when the request is sent; the DOM
+    // typings do not know about this file descriptor shape
+    fileData = new FormData();
+    fileData.append('file', {
+      uri: thumbnailUri,
+      type: 'image/jpeg',
+      name: fileName,
+    } as unknown as Blob);
+  }
+
+  const { error } = await supabase.storage
+    .from('video-thumbnails')
+    .upload(filePath, fileData, {
+      contentType: 'image/jpeg',
+      upsert: true,
+    });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('video-thumbnails')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+}
+
+export async function removeThumbnail(filePath: string) {
+  const { error } = await supabase.storage
+    .from('video-thumbnails')
+    .remove([filePath]);
+
+  if (error) throw error;
+}
+
+// expo-video-thumbnails has no web implementation, so draw the frame onto a
+// canvas instead
+function captureWebFrame(videoUri: string, timeSeconds: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(Math.max(timeSeconds, 0.1), video.duration || timeSeconds);
+    };
+
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+    };
+
+    video.onerror = () => reject(new Error('Failed to load video'));
+    video.src = videoUri;
+  });
+}
@@ -0,0 +1,498 @@
+import { useState, useEffect } from 'react';
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Upload, DetailedError } from 'tus-js-client';
+import { v4 as uuidv4 } from 'uuid';
+import 'react-native-get-random-values';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { syncVideoTags } from './tags';
+import { invalidateVideoLists, VideoVisibility } from './videos';
+import { getThumbnailPath, removeThumbnail, uploadThumbnail } from './thumbnails';
+
+export type UploadStatus = 'queued' | 'uploading' | 'failed' | 'completed';
+
+export interface UploadVideoDetails {
+  title: string;
+  description: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  visibility?: VideoVisibility;
+  publish_at?: string | null;
+}
+
+export interface QueuedUpload {
+  id: string;
+  userId: string;
+  fileUri: string;
+  contentType: string;
+  size?: number;
+  // Object path inside the `videos` bucket, `<user_id>/<file name>`
+  objectName: string;
+  thumbnailUri: string | null;
+  // Cover path inside the `video-thumbnails` bucket
+  thumbnailPath: string | null;
+  details: UploadVideoDetails;
+  status: UploadStatus;
+  progress: number;
+  // Set once the file is stored, so a retry only has to create the row
+  fileUploaded: boolean;
+  attempts: number;
+  nextAttemptAt: number | null;
+  error: string | null;
+  // Chosen when the upload is queued, so a retry writes the same row and
+  // cover as an attempt whose response was lost
+  videoId: string;
+  createdAt: number;
+}
+
+export type NewUpload = Pick<
+  QueuedUpload,
+  'userId' | 'fileUri' | 'contentType' | 'size' | 'objectName' | 'thumbnailUri' | 'details'
+>;
+
+const QUEUE_STORAGE_KEY = 'upload-queue';
+const TUS_STORAGE_PREFIX = 'tus::';
+
+// Supabase Storage only accepts 6MB chunks for resumable uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Retries of a single chunk inside one attempt
+const CHUNK_RETRY_DELAYS = [0, 3000, 5000, 10000, 20000];
+
+// Retries of a whole upload, e.g. after the network was gone for a while
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL!;
+
+let queue: QueuedUpload[] = [];
+let loadPromise: Promise<void> | null = null;
+let processing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const activeUploads = new Map<string, { tusUpload: Upload; cancel: () => void }>();
+const listeners = new Set<(uploads: QueuedUpload[]) => void>();
+
+// Keeps tus upload URLs across restarts so an interrupted file continues
+// from the last stored chunk instead of starting over
+const urlStorage = {
+  async findAllUploads() {
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(TUS_STORAGE_PREFIX));
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries
+      .filter(([, value]) => !!value)
+      .map(([key, value]) => ({ ...JSON.parse(value!), urlStorageKey: key }));
+  },
+  async findUploadsByFingerprint(fingerprint: string) {
+    const key = `${TUS_STORAGE_PREFIX}${fingerprint}`;
+    const value = await AsyncStorage.getItem(key);
+    return value ? [{ ...JSON.parse(value), urlStorageKey: key }] : [];
+  },
+  async removeUpload(urlStorageKey: string) {
+    await AsyncStorage.removeItem(urlStorageKey);
+  },
+  async addUpload(fingerprint: string, upload: object) {
+    const key = `${TUS_STORAGE_PREFIX}${fingerprint}`;
+    await AsyncStorage.setItem(key, JSON.stringify(upload));
+    return key;
+  },
+};
+
+function notify() {
+  const snapshot = [...queue];
+  listeners.forEach(listener => listener(snapshot));
+}
+
+async function persistQueue() {
+  try {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.warn('Error saving upload queue:', error);
+  }
+}
+
+function updateUpload(id: string, changes: Partial<QueuedUpload>, persist = true) {
+  queue = queue.map(upload => (upload.id === id ? { ...upload, ...changes } : upload));
+  notify();
+  if (persist) {
+    persistQueue();
+  }
+}
+
+function loadQueue() {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+        const uploads: QueuedUpload[] = stored ? JSON.parse(stored) : [];
+
+        // Finished uploads were already shown, and anything that was running
+        // when the app stopped goes back into the queue
+        queue = uploads
+          .filter(upload => upload.status !== 'completed')
+          .map((upload): QueuedUpload => ({
+            ...upload,
+            status: upload.status === 'uploading' ? 'queued' : upload.status,
+            // Queued before ids were chosen up front
+            videoId: upload.videoId || uuidv4(),
+            thumbnailPath: upload.thumbnailPath
+              ?? (upload.thumbnailUri ? getThumbnailPath(upload.userId) : null),
+          }));
+      } catch (error) {
+        console.warn('Error loading upload queue:', error);
+        queue = [];
+      }
+      notify();
+    })();
+  }
+  return loadPromise;
+}
+
+function getRetryDelay(attempts: number) {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// postgrest-js returns errors as plain objects rather than PostgrestError
+// instances
+function isPostgrestError(error: unknown): error is PostgrestError {
+  return typeof error === 'object' && error !== null
+    && 'code' in error && 'details' in error && 'hint' in error;
+}
+
+// Rejections such as an oversized or unsupported file fail the same way on
+// every attempt, so they are not retried
+function isRetryableError(error: unknown): boolean {
+  // The database rejected the row, e.g. a policy or check failed. Requests
+  // that never got a response are reported without a code.
+  if (isPostgrestError(error)) return !error.code;
+  if (!(error instanceof DetailedError)) return true;
+  const status = error.originalResponse?.getStatus();
+  return !status || status >= 500 || status === 408 || status === 429;
+}
+
+function getUploadErrorMessage(error: unknown): string {
+  if (!(error instanceof DetailedError)) {
+    const message = error instanceof Error || isPostgrestError(error) ? error.message : null;
+    return message || 'Failed to upload video. Please try again.';
+  }
+
+  const status = error.originalResponse?.getStatus();
+  const body = error.originalResponse?.getBody() || '';
+
+  // tus reports a request that never got a response without a status
+  if (!status) {
+    return 'Network error. Please check your connection.';
+  }
+  if (status === 413 || /maximum allowed size|storage quota/i.test(body)) {
+    return 'The video is larger than the upload limit. Please choose a shorter clip.';
+  }
+  if (status === 415 || /mime type/i.test(body)) {
+    return 'This video format is not accepted. Please upload an MP4, MOV or WebM file.';
+  }
+  if (status === 401 || status === 403) {
+    return 'You are not allowed to upload this video. Please sign in again.';
+  }
+  if (status >= 500) {
+    return 'The server could not store the video. Please try again later.';
+  }
+  return error.message || 'Failed to upload video. Please try again.';
+}
+
+async function getUploadFile(upload: QueuedUpload) {
+  if (Platform.OS === 'web') {
+    // Blob URLs do not survive a page reload, which fails the fetch and
+    // surfaces as an upload error
+    const response = await fetch(upload.fileUri);
+    return response.blob();
+  }
+
+  // tus-js-client reads React Native files from their uri
+  return {
+    uri: upload.fileUri,
+    name: upload.objectName.split('/').pop(),
+    type: upload.contentType,
+  } as unknown as Blob;
+}
+
+function uploadFile(upload: QueuedUpload, file: Blob): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tusUpload = new Upload(file, {
+      endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: CHUNK_RETRY_DELAYS,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      urlStorage,
+      // Keyed by queue item so a restarted upload finds its previous URL
+      fingerprint: async () => `video-upload-${upload.id}`,
+      headers: {
+        'x-upsert': 'true',
+      },
+      metadata: {
+        bucketName: 'videos',
+        objectName: upload.objectName,
+        contentType: upload.contentType,
+        cacheControl: '3600',
+      },
+      onBeforeRequest: async req => {
+        // Long uploads can outlive the access token they started with
+        const { data: { session } } = await supabase.auth.getSession();
+        if (session) {
+          req.setHeader('authorization', `Bearer ${session.access_token}`);
+        }
+      },
+      onProgress: (bytesSent, bytesTotal) => {
+        const progress = bytesTotal ? Math.round((bytesSent / bytesTotal) * 100) : 0;
+        updateUpload(upload.id, { progress }, false);
+      },
+      onSuccess: () => {
+        activeUploads.delete(upload.id);
+        resolve();
+      },
+      onError: error => {
+        activeUploads.delete(upload.id);
+        reject(error);
+      },
+    });
+
+    activeUploads.set(upload.id, {
+      tusUpload,
+      cancel: () => reject(new Error('Upload cancelled')),
+    });
+
+    tusUpload.findPreviousUploads()
+      .then(previousUploads => {
+        if (previousUploads.length > 0) {
+          tusUpload.resumeFromPreviousUpload(previousUploads[0]);
+        }
+        tusUpload.start();
+      })
+      .catch(reject);
+  });
+}
+
+// Creates the `videos` row once the file is stored
+async function createVideo(upload: QueuedUpload) {
+  const { data: { publicUrl: videoUrl } } = supabase.storage
+    .from('videos')
+    .getPublicUrl(upload.objectName);
+
+  // A failed cover upload should not fail the whole upload, the grids fall
+  // back to a placeholder image
+  let thumbnailUrl: string | null = null;
+  if (upload.thumbnailUri && upload.thumbnailPath) {
+    try {
+      thumbnailUrl = await uploadThumbnail(upload.thumbnailPath, upload.thumbnailUri);
+    } catch (thumbnailError) {
+      console.warn('Error uploading thumbnail:', thumbnailError);
+    }
+  }
+
+  const { details } = upload;
+  const videoData = {
+    id: upload.videoId,
+    user_id: upload.userId,
+    video_url: videoUrl,
+    thumbnail_url: thumbnailUrl,
+    title: details.title,
+    description: details.description,
+    visibility: details.visibility || 'public',
+    publish_at: details.publish_at || null,
+    ...(details.latitude != null && details.longitude != null && {
+      address: details.address,
+      latitude: details.latitude,
+      longitude: details.longitude,
+    }),
+  };
+
+  const { error } = await supabase
+    .from('videos')
+    .upsert(videoData);
+
+  if (error) throw error;
+
+  try {
+    await syncVideoTags(upload.videoId, videoData.description);
+  } catch (tagError) {
+    console.warn('Error saving video tags:', tagError);
+  }
+
+  invalidateVideoLists();
+}
+
+// Deletes the files of an upload that won't become a video, so they don't
+// stay in storage without a row
+async function removeStoredFiles(upload: QueuedUpload) {
+  try {
+    const { error } = await supabase.storage
+      .from('videos')
+      .remove([upload.objectName]);
+
+    if (error) throw error;
+
+    if (upload.thumbnailPath) {
+      await removeThumbnail(upload.thumbnailPath);
+    }
+  } catch (error) {
+    console.warn('Error removing uploaded files:', error);
+  }
+}
+
+async function runUpload(upload: QueuedUpload) {
+  updateUpload(upload.id, { status: 'uploading', error: null, nextAttemptAt: null });
+
+  try {
+    if (!upload.fileUploaded) {
+      const file = await getUploadFile(upload);
+      await uploadFile(upload, file);
+      updateUpload(upload.id, { fileUploaded: true, progress: 100 });
+    }
+
+    await createVideo(upload);
+    updateUpload(upload.id, { status: 'completed' });
+  } catch (error) {
+    // Removed from the queue while running
+    const current = queue.find(item => item.id === upload.id);
+    if (!current) return;
+
+    console.error('Error uploading video:', error);
+    const attempts = upload.attempts + 1;
+
+    if (attempts >= MAX_ATTEMPTS || !isRetryableError(error)) {
+      // Retrying a failed upload sends the file again
+      if (current.fileUploaded) {
+        removeStoredFiles(current);
+      }
+      updateUpload(upload.id, {
+        status: 'failed',
+        attempts,
+        fileUploaded: false,
+        progress: 0,
+        error: getUploadErrorMessage(error),
+      });
+    } else {
+      updateUpload(upload.id, {
+        status: 'queued',
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        error: getUploadErrorMessage(error),
+      });
+    }
+  }
+}
+
+// Uploads one video at a time; items waiting for a retry are picked up by a
+// timer once their backoff has passed
+async function processQueue() {
+  if (processing) return;
+  processing = true;
+
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  try {
+    await loadQueue();
+
+    let next = queue.find(upload => upload.status === 'queued' && (upload.nextAttemptAt ?? 0) <= Date.now());
+    while (next) {
+      await runUpload(next);
+      next = queue.find(upload => upload.status === 'queued' && (upload.nextAttemptAt ?? 0) <= Date.now());
+    }
+
+    const waiting = queue
+      .filter(upload => upload.status === 'queued' && upload.nextAttemptAt)
+      .map(upload => upload.nextAttemptAt!);
+    if (waiting.length > 0) {
+      retryTimer = setTimeout(processQueue, Math.max(0, Math.min(...waiting) - Date.now()));
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+// Called once the user is signed in to continue uploads from a previous run
+export function resumeUploads() {
+  processQueue();
+
+  const subscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      processQueue();
+    }
+  });
+
+  return () => subscription.remove();
+}
+
+export async function enqueueUpload(input: NewUpload): Promise<QueuedUpload> {
+  await loadQueue();
+
+  const upload: QueuedUpload = {
+    ...input,
+    id: uuidv4(),
+    thumbnailPath: input.thumbnailUri ? getThumbnailPath(input.userId) : null,
+    status: 'queued',
+    progress: 0,
+    fileUploaded: false,
+    attempts: 0,
+    nextAttemptAt: null,
+    error: null,
+    videoId: uuidv4(),
+    createdAt: Date.now(),
+  };
+
+  queue = [...queue, upload];
+  notify();
+  await persistQueue();
+
+  processQueue();
+  return upload;
+}
+
+export function retryUpload(id: string) {
+  updateUpload(id, { status: 'queued', attempts: 0, nextAttemptAt: null, error: null });
+  processQueue();
+}
+
+// Cancels a running upload or dismisses a finished one
+export async function removeUpload(id: string) {
+  const active = activeUploads.get(id);
+  activeUploads.delete(id);
+  const removed = queue.find(upload => upload.id === id);
+
+  queue = queue.filter(upload => upload.id !== id);
+  notify();
+  await persistQueue();
+
+  // The file of a completed upload belongs to its video
+  if (removed?.fileUploaded && removed.status !== 'completed') {
+    removeStoredFiles(removed);
+  }
+
+  if (active) {
+    active.cancel();
+    try {
+      await active.tusUpload.abort(true);
+    } catch (error) {
+      console.warn('Error cancelling upload:', error);
+    }
+  }
+}
+
+export function useUploadQueue() {
+  const [uploads, setUploads] = useState<QueuedUpload[]>(queue);
+
+  useEffect(() => {
+    listeners.add(setUploads);
+    loadQueue().then(() => setUploads([...queue]));
+
+    return () => {
+      listeners.delete(setUploads);
+    };
+  }, []);
+
+  return uploads;
+}
@@ -0,0 +1,139 @@
+import { Platform } from 'react-native';
+import { generateThumbnail } from './thumbnails';
+
+export interface LocalVideo {
+  uri: string;
+  // Seconds
+  duration: number;
+  type: string;
+  size?: number;
+}
+
+export const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_VIDEO_DURATION = 60;
+export const MIN_VIDEO_DURATION = 1;
+
+// Containers the feed players can stream on every platform, by extension
+const SUPPORTED_VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+};
+
+// Target profile for optimized uploads: H.264 at up to 720p, which every
+// player decodes and keeps the feed quick to start
+const COMPRESSION_MAX_DIMENSION = 1280;
+const COMPRESSION_BITRATE = 2_500_000;
+
+// Compression runs natively, so it is unavailable on web
+export const canCompressVideo = Platform.OS !== 'web';
+
+export function getVideoContentType(uri: string, mimeType?: string | null): string | null {
+  if (mimeType && Object.values(SUPPORTED_VIDEO_TYPES).includes(mimeType)) {
+    return mimeType;
+  }
+
+  const ext = uri.split('?')[0].split('.').pop()?.toLowerCase();
+  return (ext && SUPPORTED_VIDEO_TYPES[ext]) || null;
+}
+
+export function getVideoExtension(contentType: string): string {
+  const entry = Object.entries(SUPPORTED_VIDEO_TYPES).find(([, type]) => type === contentType);
+  return entry ? entry[0] : 'mp4';
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function getVideoSizeError(size?: number, maxSize = MAX_VIDEO_SIZE): string | null {
+  if (size && size > maxSize) {
+    return `Video is ${formatMegabytes(size)}, the limit is ${formatMegabytes(maxSize)}`;
+  }
+  return null;
+}
+
+async function getFileSize(uri: string): Promise<number | undefined> {
+  try {
+    if (Platform.OS === 'web') {
+      const response = await fetch(uri);
+      return (await response.blob()).size;
+    }
+    const size = Number(await loadCompressor().getFileSize(uri));
+    return isNaN(size) ? undefined : size;
+  } catch (error) {
+    console.warn('Error reading video size:', error);
+    return undefined;
+  }
+}
+
+// Loaded on demand: requiring the native module throws on web and in Expo Go
+function loadCompressor(): typeof import('react-native-compressor') {
+  return require('react-native-compressor');
+}
+
+// Returns why a picked video can't be uploaded, or null when it can. The
+// size limit is left to the caller when the video will be compressed first,
+// and can be lowered for uploads other than feed videos.
+export async function validateVideo(
+  video: { uri: string; duration: number; mimeType?: string | null; size?: number },
+  options: { compress?: boolean; maxSize?: number } = {}
+): Promise<string | null> {
+  if (!getVideoContentType(video.uri, video.mimeType)) {
+    return 'Unsupported video format. Please choose an MP4, MOV or WebM file.';
+  }
+
+  if (video.duration > 0 && video.duration < MIN_VIDEO_DURATION) {
+    return `Video must be at least ${MIN_VIDEO_DURATION} second long`;
+  }
+
+  // The picker trims to the limit natively, but not on web. Allow for the
+  // rounding of trimmed clips.
+  if (video.duration > MAX_VIDEO_DURATION + 0.5) {
+    return `Video must be ${MAX_VIDEO_DURATION} seconds or shorter`;
+  }
+
+  if (!options.compress) {
+    const sizeError = getVideoSizeError(video.size ?? (await getFileSize(video.uri)), options.maxSize);
+    // Optimization is only offered when uploading to the feed
+    const canOptimize = canCompressVideo && !options.maxSize;
+    if (sizeError) return `${sizeError}. Try a shorter clip${canOptimize ? ' or turn on optimization' : ''}.`;
+  }
+
+  // A container we accept can still hold a codec this device can't decode,
+  // e.g. HEVC in a browser without support for it
+  try {
+    await generateThumbnail(video.uri, 0);
+  } catch (error) {
+    console.warn('Error decoding video:', error);
+    return 'This video uses a codec that can\'t be played. Please export it as H.264 and try again.';
+  }
+
+  return null;
+}
+
+// Re-encodes a video to the standard upload profile and returns the new file
+export async function compressVideo(
+  video: LocalVideo,
+  onProgress?: (progress: number) => void
+): Promise<LocalVideo> {
+  const { Video } = loadCompressor();
+
+  const uri = await Video.compress(
+    video.uri,
+    {
+      compressionMethod: 'manual',
+      maxSize: COMPRESSION_MAX_DIMENSION,
+      bitrate: COMPRESSION_BITRATE,
+    },
+    onProgress
+  );
+
+  return {
+    uri,
+    duration: video.duration,
+    type: 'video/mp4',
+    size: await getFileSize(uri),
+  };
+}
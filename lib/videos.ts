@@ -0,0 +1,364 @@
+import { useState, useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+
+export interface VideoUser {
+  username: string;
+  avatar_url: string | null;
+}
+
+export type VideoVisibility = 'public' | 'followers' | 'private' | 'unlisted';
+
+export const VIDEO_VISIBILITY_OPTIONS: { value: VideoVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Everyone can watch and find it' },
+  { value: 'followers', label: 'Followers', description: 'Only your followers can watch it' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Anyone with the link can watch it' },
+  { value: 'private', label: 'Private', description: 'Only you can watch it' },
+];
+
+export interface VideoWithProfile {
+  id: string;
+  title: string;
+  description: string;
+  video_url: string;
+  // HLS master playlist, set once the packaging worker has processed the video
+  hls_url?: string | null;
+  thumbnail_url: string | null;
+  created_at: string;
+  user_id: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  like_count: number;
+  bookmark_count: number;
+  comment_count: number;
+  view_count: number;
+  share_count?: number;
+  visibility?: VideoVisibility;
+  // Hidden from everyone but the creator until this time
+  publish_at?: string | null;
+  user: VideoUser;
+}
+
+// A video as the list functions return it, with the profile of its creator
+// joined in
+export interface VideoRow extends Omit<
+  VideoWithProfile,
+  'user' | 'like_count' | 'bookmark_count' | 'comment_count' | 'view_count'
+> {
+  like_count: number | null;
+  bookmark_count: number | null;
+  comment_count: number | null;
+  view_count: number | null;
+  username: string | null;
+  avatar_url: string | null;
+  // Cursor column of get_video_page
+  list_cursor_at?: string;
+}
+
+export type VideoListSource =
+  | { type: 'all' }
+  | { type: 'located' }
+  | { type: 'user'; userId: string }
+  | { type: 'liked'; userId: string }
+  | { type: 'bookmarked'; userId: string };
+
+export interface VideoCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface VideoPage<C = VideoCursor> {
+  videos: VideoWithProfile[];
+  nextCursor: C | null;
+}
+
+export interface VideoListEntry<C = VideoCursor> extends VideoPage<C> {
+  fetchedAt: number;
+}
+
+export const VIDEO_PAGE_SIZE = 18;
+
+// Cached lists are shown immediately when a screen mounts and refreshed in
+// the background once they are older than this.
+const CACHE_TTL_MS = 60 * 1000;
+
+const listCache = new Map<string, VideoListEntry<unknown>>();
+
+export function toVideoWithProfile(row: VideoRow): VideoWithProfile {
+  const { username, avatar_url, list_cursor_at, ...video } = row;
+  return {
+    ...video,
+    like_count: video.like_count || 0,
+    bookmark_count: video.bookmark_count || 0,
+    comment_count: video.comment_count || 0,
+    view_count: video.view_count || 0,
+    user: {
+      username: username || `user_${video.user_id.slice(0, 8)}`,
+      avatar_url: avatar_url || null,
+    },
+  };
+}
+
+let browserPlaysHls: boolean | null = null;
+
+// Native players stream HLS, but most desktop browsers only play it through
+// Media Source extensions, so they get the MP4
+function canPlayHls() {
+  if (Platform.OS !== 'web') return true;
+  if (browserPlaysHls === null) {
+    browserPlaysHls = typeof document !== 'undefined'
+      && document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== '';
+  }
+  return browserPlaysHls;
+}
+
+// Prefers the adaptive stream and falls back to the original upload
+export function getPlaybackUrl(video: { video_url: string; hls_url?: string | null }): string {
+  return video.hls_url && canPlayHls() ? video.hls_url : video.video_url;
+}
+
+export function getVideoListKey(source: VideoListSource): string {
+  return 'userId' in source ? `${source.type}:${source.userId}` : source.type;
+}
+
+// Route params used to open the feed within a list, e.g. from a profile grid
+export function getVideoListParams(source: VideoListSource): Record<string, string> {
+  return 'userId' in source
+    ? { source: source.type, userId: source.userId }
+    : { source: source.type };
+}
+
+export function parseVideoListParams(params: { source?: string; userId?: string }): VideoListSource | null {
+  switch (params.source) {
+    case 'all':
+    case 'located':
+      return { type: params.source };
+    case 'user':
+    case 'liked':
+    case 'bookmarked':
+      return params.userId ? { type: params.source, userId: params.userId } : null;
+    default:
+      return null;
+  }
+}
+
+export function readVideoListCache<C = VideoCursor>(key: string): VideoListEntry<C> | null {
+  return (listCache.get(key) as VideoListEntry<C> | undefined) || null;
+}
+
+export function writeVideoListCache<C = VideoCursor>(key: string, entry: VideoListEntry<C>) {
+  listCache.set(key, entry);
+}
+
+export function isVideoListFresh(entry: VideoListEntry<unknown> | null) {
+  return !!entry && Date.now() - entry.fetchedAt < CACHE_TTL_MS;
+}
+
+// Drops every cached list, e.g. after uploading or editing a video
+export function invalidateVideoLists() {
+  listCache.clear();
+}
+
+export async function fetchVideoPage(
+  source: VideoListSource,
+  cursor: VideoCursor | null = null,
+  pageSize = VIDEO_PAGE_SIZE
+): Promise<VideoPage> {
+  const { data, error } = await supabase.rpc('get_video_page', {
+    list_type: source.type,
+    owner_id: 'userId' in source ? source.userId : null,
+    cursor_created_at: cursor?.createdAt ?? null,
+    cursor_id: cursor?.id ?? null,
+    page_size: pageSize,
+  });
+
+  if (error) throw error;
+
+  const rows: (VideoRow & { list_cursor_at: string })[] = data || [];
+  const last = rows[rows.length - 1];
+
+  return {
+    videos: rows.map(toVideoWithProfile),
+    nextCursor: rows.length === pageSize
+      ? { createdAt: last.list_cursor_at, id: last.id }
+      : null,
+  };
+}
+
+export async function fetchVideo(videoId: string): Promise<VideoWithProfile | null> {
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('id', videoId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!video) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('username, avatar_url')
+    .eq('id', video.user_id)
+    .maybeSingle();
+
+  return toVideoWithProfile({
+    ...video,
+    username: profile?.username ?? null,
+    avatar_url: profile?.avatar_url ?? null,
+  });
+}
+
+// Matches video_is_listed: scheduled videos count once they are published
+function countListedVideos() {
+  return supabase
+    .from('videos')
+    .select('id', { count: 'exact', head: true })
+    .in('visibility', ['public', 'followers'])
+    .or(`publish_at.is.null,publish_at.lte.${new Date().toISOString()}`);
+}
+
+export async function countVideos(source: VideoListSource): Promise<number> {
+  let query;
+
+  switch (source.type) {
+    case 'liked':
+      query = supabase
+        .from('video_likes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', source.userId);
+      break;
+    case 'bookmarked':
+      query = supabase
+        .from('video_bookmarks')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', source.userId);
+      break;
+    case 'user':
+      query = supabase
+        .from('videos')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', source.userId);
+      break;
+    case 'located':
+      query = countListedVideos()
+        .not('latitude', 'is', null)
+        .not('longitude', 'is', null);
+      break;
+    default:
+      query = countListedVideos();
+  }
+
+  const { count, error } = await query;
+
+  if (error) throw error;
+  return count || 0;
+}
+
+export function useVideoList(source: VideoListSource | null) {
+  const key = source ? getVideoListKey(source) : null;
+  const [entry, setEntry] = useState<VideoListEntry | null>(() => (key ? readVideoListCache(key) : null));
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  useEffect(() => {
+    if (!key) {
+      setEntry(null);
+      return;
+    }
+
+    const cached = readVideoListCache(key);
+    setEntry(cached);
+    if (!isVideoListFresh(cached)) {
+      refresh();
+    }
+  }, [key]);
+
+  async function refresh() {
+    const source = sourceRef.current;
+    if (!source) return;
+
+    // Responses for a list the screen already moved away from are ignored
+    const currentRequest = ++requestId.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await fetchVideoPage(source);
+      if (currentRequest !== requestId.current) return;
+
+      const next = { ...page, fetchedAt: Date.now() };
+      writeVideoListCache(getVideoListKey(source), next);
+      setEntry(next);
+    } catch (error) {
+      if (currentRequest !== requestId.current) return;
+      console.error('Error loading videos:', error);
+      setError('Failed to load videos');
+    } finally {
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+      }
+    }
+  }
+
+  async function loadMore() {
+    const source = sourceRef.current;
+    if (!source || !entry?.nextCursor || loading || loadingMore) return;
+
+    const currentRequest = requestId.current;
+
+    try {
+      setLoadingMore(true);
+
+      const page = await fetchVideoPage(source, entry.nextCursor);
+      if (currentRequest !== requestId.current) return;
+
+      const seen = new Set(entry.videos.map(video => video.id));
+      const next = {
+        videos: [...entry.videos, ...page.videos.filter(video => !seen.has(video.id))],
+        nextCursor: page.nextCursor,
+        fetchedAt: entry.fetchedAt,
+      };
+      writeVideoListCache(getVideoListKey(source), next);
+      setEntry(next);
+    } catch (error) {
+      console.error('Error loading more videos:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  // Patches a listed video in place, e.g. with live counters
+  function updateVideo(videoId: string, changes: Partial<VideoWithProfile>) {
+    const source = sourceRef.current;
+    if (!source) return;
+
+    setEntry(prev => {
+      if (!prev || !prev.videos.some(video => video.id === videoId)) return prev;
+
+      const next = {
+        ...prev,
+        videos: prev.videos.map(video => (video.id === videoId ? { ...video, ...changes } : video)),
+      };
+      writeVideoListCache(getVideoListKey(source), next);
+      return next;
+    });
+  }
+
+  return {
+    videos: entry?.videos || [],
+    loading: loading && !entry,
+    refreshing: loading && !!entry,
+    loadingMore,
+    error,
+    hasMore: !!entry?.nextCursor,
+    loadMore,
+    refresh,
+    updateVideo,
+  };
+}
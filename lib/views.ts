@@ -0,0 +1,50 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+
+// A view counts once the video has played this long, or half of its length for
+// clips shorter than twice the threshold
+export const VIEW_THRESHOLD_SECONDS = 3;
+
+// Views are de-duplicated per user and app session
+const sessionId = uuidv4();
+const recordedViews = new Set<string>();
+
+export function hasReachedViewThreshold(positionSeconds: number, durationSeconds?: number | null) {
+  const threshold = durationSeconds && durationSeconds > 0
+    ? Math.min(VIEW_THRESHOLD_SECONDS, durationSeconds / 2)
+    : VIEW_THRESHOLD_SECONDS;
+
+  return positionSeconds >= threshold;
+}
+
+// Records a view and resolves to true when it was counted for the first time
+// in this session
+export async function recordView(videoId: string): Promise<boolean> {
+  if (recordedViews.has(videoId)) return false;
+  recordedViews.add(videoId);
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return false;
+
+    const { data, error } = await supabase
+      .from('video_views')
+      .upsert(
+        {
+          video_id: videoId,
+          user_id: session.user.id,
+          session_id: sessionId,
+        },
+        { onConflict: 'video_id,user_id,session_id', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) throw error;
+    return (data?.length || 0) > 0;
+  } catch (error) {
+    recordedViews.delete(videoId);
+    console.warn('Error recording view:', error);
+    return false;
+  }
+}
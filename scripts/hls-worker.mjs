@@ -0,0 +1,219 @@
+/* eslint-env node */
+// Packages uploaded videos as HLS renditions next to the original MP4.
+//
+// Runs outside the app with ffmpeg and ffprobe on the PATH:
+//
+//   EXPO_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run hls:worker
+//
+// Each video's playlists and segments are written to the `videos` bucket at
+// `<user_id>/<file name without extension>/hls/`, and the video row is
+// updated with the master playlist url once every rendition is uploaded.
+
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, readFile, rm, writeFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+
+const run = promisify(execFile);
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const POLL_INTERVAL_MS = 10 * 1000;
+const SEGMENT_SECONDS = 4;
+
+// Sized by the short side of the video so portrait and landscape clips get
+// the same quality steps
+const RENDITIONS = [
+  { name: '360p', size: 360, videoBitrate: 800_000 },
+  { name: '540p', size: 540, videoBitrate: 1_400_000 },
+  { name: '720p', size: 720, videoBitrate: 2_800_000 },
+];
+const AUDIO_BITRATE = 128_000;
+
+const CONTENT_TYPES = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+};
+
+if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+  console.error('EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+function getObjectName(videoUrl) {
+  const marker = '/storage/v1/object/public/videos/';
+  const index = videoUrl.indexOf(marker);
+  if (index === -1) throw new Error(`Not a videos bucket url: ${videoUrl}`);
+  return decodeURIComponent(videoUrl.slice(index + marker.length));
+}
+
+function even(value) {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+async function probe(inputPath) {
+  const { stdout } = await run('ffprobe', [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height',
+    '-of', 'json',
+    inputPath,
+  ]);
+  const [stream] = JSON.parse(stdout).streams || [];
+  if (!stream?.width || !stream?.height) throw new Error('No video stream found');
+  return { width: stream.width, height: stream.height };
+}
+
+// Renditions larger than the source are skipped, but there is always at
+// least the smallest one
+function getRenditions({ width, height }) {
+  const shortSide = Math.min(width, height);
+  const renditions = RENDITIONS.filter((rendition, index) => index === 0 || rendition.size <= shortSide);
+
+  return renditions.map(rendition => {
+    const scale = Math.min(1, rendition.size / shortSide);
+    return { ...rendition, width: even(width * scale), height: even(height * scale) };
+  });
+}
+
+async function encodeRendition(inputPath, outputDir, rendition) {
+  const dir = path.join(outputDir, rendition.name);
+  await mkdir(dir, { recursive: true });
+
+  await run('ffmpeg', [
+    '-y',
+    '-i', inputPath,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    '-vf', `scale=${rendition.width}:${rendition.height}`,
+    '-c:v', 'libx264',
+    '-profile:v', 'main',
+    '-preset', 'veryfast',
+    '-b:v', String(rendition.videoBitrate),
+    '-maxrate', String(Math.round(rendition.videoBitrate * 1.1)),
+    '-bufsize', String(rendition.videoBitrate * 2),
+    // Keyframes on segment boundaries so players can switch renditions
+    '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    '-c:a', 'aac',
+    '-b:a', String(AUDIO_BITRATE),
+    '-ac', '2',
+    '-f', 'hls',
+    '-hls_time', String(SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', path.join(dir, 'segment_%03d.ts'),
+    path.join(dir, 'index.m3u8'),
+  ], { maxBuffer: 16 * 1024 * 1024 });
+}
+
+function buildMasterPlaylist(renditions) {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+  for (const rendition of renditions) {
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.videoBitrate + AUDIO_BITRATE},RESOLUTION=${rendition.width}x${rendition.height}`,
+      `${rendition.name}/index.m3u8`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+async function uploadDirectory(localDir, objectPrefix) {
+  const entries = await readdir(localDir, { recursive: true, withFileTypes: true });
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+
+    const localPath = path.join(entry.parentPath ?? entry.path, entry.name);
+    const objectName = `${objectPrefix}/${path.relative(localDir, localPath).split(path.sep).join('/')}`;
+    const { error } = await supabase.storage
+      .from('videos')
+      .upload(objectName, await readFile(localPath), {
+        contentType: CONTENT_TYPES[path.extname(entry.name)] || 'application/octet-stream',
+        cacheControl: '31536000',
+        upsert: true,
+      });
+
+    if (error) throw error;
+  }
+}
+
+async function packageVideo(job) {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'hls-'));
+
+  try {
+    const inputPath = path.join(workDir, 'source');
+    const response = await fetch(job.video_url);
+    if (!response.ok) throw new Error(`Failed to download video: ${response.status}`);
+    await writeFile(inputPath, Buffer.from(await response.arrayBuffer()));
+
+    const outputDir = path.join(workDir, 'hls');
+    const renditions = getRenditions(await probe(inputPath));
+    for (const rendition of renditions) {
+      await encodeRendition(inputPath, outputDir, rendition);
+    }
+    await writeFile(path.join(outputDir, 'master.m3u8'), buildMasterPlaylist(renditions));
+
+    const objectName = getObjectName(job.video_url);
+    const objectPrefix = `${objectName.replace(/\.[^/.]+$/, '')}/hls`;
+    // Players only find the playlist through the row, which is updated once
+    // every file is stored
+    await uploadDirectory(outputDir, objectPrefix);
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('videos')
+      .getPublicUrl(`${objectPrefix}/master.m3u8`);
+
+    const { error } = await supabase
+      .from('videos')
+      .update({ hls_url: publicUrl, hls_status: 'ready' })
+      .eq('id', job.id);
+
+    if (error) throw error;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function processNextJob() {
+  const { data, error } = await supabase.rpc('claim_hls_job');
+  if (error) throw error;
+
+  const job = data?.[0];
+  if (!job) return false;
+
+  console.log(`Packaging video ${job.id}`);
+  try {
+    await packageVideo(job);
+    console.log(`Packaged video ${job.id}`);
+  } catch (packageError) {
+    console.error(`Error packaging video ${job.id}:`, packageError);
+    await supabase
+      .from('videos')
+      .update({ hls_status: 'failed' })
+      .eq('id', job.id);
+  }
+  return true;
+}
+
+async function main() {
+  for (;;) {
+    let processed = false;
+    try {
+      processed = await processNextJob();
+    } catch (error) {
+      console.error('Error claiming HLS job:', error);
+    }
+
+    if (!processed) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+}
+
+main();
@@ -0,0 +1,115 @@
+/*
+  # Add threaded comments
+
+  1. Changes
+    - Add `parent_id` to `video_comments` so comments can be replies to other comments
+    - Add indexes for paginating comments per video and replies per comment
+    - Add `get_video_comments` function returning a page of comments with profile data
+    - Enable real-time for `video_comments`
+
+  2. Security
+    - Replies must belong to the same video as their parent comment
+    - Existing RLS policies on `video_comments` continue to apply
+*/
+
+-- Add parent reference for replies
+ALTER TABLE video_comments
+ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES video_comments ON DELETE CASCADE;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_video_comments_video_created
+ON video_comments(video_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_video_comments_parent_id
+ON video_comments(parent_id, created_at, id);
+
+-- Ensure replies stay on the same video as their parent
+CREATE OR REPLACE FUNCTION check_video_comment_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM video_comments
+    WHERE id = NEW.parent_id
+    AND video_id = NEW.video_id
+  ) THEN
+    RAISE EXCEPTION 'Parent comment must belong to the same video';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER video_comment_parent_trigger
+BEFORE INSERT OR UPDATE OF parent_id ON video_comments
+FOR EACH ROW
+EXECUTE FUNCTION check_video_comment_parent();
+
+-- Create function to get a page of comments with profiles
+-- Top-level comments are returned newest first, replies oldest first. The
+-- parameters are prefixed as they would clash with the returned columns.
+CREATE OR REPLACE FUNCTION get_video_comments(
+  p_video_id uuid,
+  p_parent_id uuid DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  video_id uuid,
+  user_id uuid,
+  parent_id uuid,
+  content text,
+  created_at timestamptz,
+  username text,
+  avatar_url text,
+  reply_count bigint
+) AS $$
+BEGIN
+  IF $2 IS NULL THEN
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.video_id,
+      c.user_id,
+      c.parent_id,
+      c.content,
+      c.created_at,
+      p.username,
+      p.avatar_url,
+      (SELECT COUNT(*) FROM video_comments r WHERE r.parent_id = c.id)
+    FROM video_comments c
+    LEFT JOIN profiles p ON c.user_id = p.id
+    WHERE c.video_id = $1
+    AND c.parent_id IS NULL
+    AND ($3 IS NULL OR (c.created_at, c.id) < ($3, $4))
+    ORDER BY c.created_at DESC, c.id DESC
+    LIMIT $5;
+  ELSE
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.video_id,
+      c.user_id,
+      c.parent_id,
+      c.content,
+      c.created_at,
+      p.username,
+      p.avatar_url,
+      0::bigint
+    FROM video_comments c
+    LEFT JOIN profiles p ON c.user_id = p.id
+    WHERE c.video_id = $1
+    AND c.parent_id = $2
+    AND ($3 IS NULL OR (c.created_at, c.id) > ($3, $4))
+    ORDER BY c.created_at ASC, c.id ASC
+    LIMIT $5;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Include the full row in delete events so clients know which video changed
+ALTER TABLE video_comments REPLICA IDENTITY FULL;
+
+-- Enable real-time for video_comments table
+ALTER PUBLICATION supabase_realtime ADD TABLE video_comments;
@@ -0,0 +1,182 @@
+/*
+  # Add full-text search for videos, people and hashtags
+
+  1. Changes
+    - Recreate `video_user_profiles` materialized view with a `search_vector` column
+      built from the video title, description and creator username
+    - Add GIN indexes for full-text search on the view and on `profiles.username`
+    - Add `build_search_query` helper turning user input into a prefix tsquery
+    - Add `search_videos`, `search_profiles` and `search_hashtags` functions
+
+  2. Security
+    - Functions are created with SECURITY DEFINER and only expose data that is
+      already readable by authenticated users
+*/
+
+-- Recreate the materialized view with a search vector
+DROP MATERIALIZED VIEW IF EXISTS video_user_profiles;
+
+CREATE MATERIALIZED VIEW video_user_profiles AS
+SELECT
+  v.id,
+  v.title,
+  v.description,
+  v.video_url,
+  v.thumbnail_url,
+  v.created_at,
+  v.user_id,
+  p.username,
+  p.avatar_url,
+  v.like_count,
+  setweight(to_tsvector('simple', coalesce(v.title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(p.username, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(v.description, '')), 'C') AS search_vector
+FROM videos v
+LEFT JOIN profiles p ON v.user_id = p.id;
+
+-- Create indexes for better performance
+CREATE UNIQUE INDEX video_user_profiles_id_idx ON video_user_profiles(id);
+CREATE INDEX video_user_profiles_user_id_idx ON video_user_profiles(user_id);
+CREATE INDEX video_user_profiles_created_at_idx ON video_user_profiles(created_at DESC);
+CREATE INDEX video_user_profiles_search_idx ON video_user_profiles USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_username_search
+ON profiles USING GIN (to_tsvector('simple', coalesce(username, '')));
+
+-- Grant access to authenticated users
+GRANT SELECT ON video_user_profiles TO authenticated;
+
+-- Create function to turn raw input into a prefix query, e.g. 'sun set' -> 'sun:* & set:*'
+CREATE OR REPLACE FUNCTION build_search_query(query text)
+RETURNS tsquery AS $$
+DECLARE
+  terms text;
+BEGIN
+  SELECT string_agg(quote_literal(term) || ':*', ' & ')
+  INTO terms
+  FROM regexp_split_to_table(
+    lower(trim(regexp_replace($1, '[^[:alnum:]_[:space:]]', ' ', 'g'))),
+    '\s+'
+  ) AS term
+  WHERE term <> '';
+
+  IF terms IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN to_tsquery('simple', terms);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Create function to search videos
+CREATE OR REPLACE FUNCTION search_videos(
+  query text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  like_count integer,
+  rank real
+) AS $$
+DECLARE
+  ts_query tsquery := build_search_query($1);
+BEGIN
+  IF ts_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    vup.id,
+    vup.title,
+    vup.description,
+    vup.video_url,
+    vup.thumbnail_url,
+    vup.created_at,
+    vup.user_id,
+    vup.username,
+    vup.avatar_url,
+    vup.like_count,
+    ts_rank(vup.search_vector, ts_query) AS rank
+  FROM video_user_profiles vup
+  WHERE vup.search_vector @@ ts_query
+  ORDER BY rank DESC, vup.created_at DESC, vup.id
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to search profiles by username
+CREATE OR REPLACE FUNCTION search_profiles(
+  query text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  avatar_url text,
+  follower_count integer,
+  rank real
+) AS $$
+DECLARE
+  ts_query tsquery := build_search_query($1);
+BEGIN
+  IF ts_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.avatar_url,
+    p.follower_count,
+    ts_rank(to_tsvector('simple', coalesce(p.username, '')), ts_query) AS rank
+  FROM profiles p
+  WHERE to_tsvector('simple', coalesce(p.username, '')) @@ ts_query
+  ORDER BY rank DESC, p.follower_count DESC NULLS LAST, p.id
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to search hashtags used in video descriptions
+CREATE OR REPLACE FUNCTION search_hashtags(
+  query text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  tag text,
+  video_count bigint
+) AS $$
+DECLARE
+  prefix text := lower(regexp_replace($1, '[^[:alnum:]_]', '', 'g'));
+BEGIN
+  IF prefix = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lower(m[1]) AS tag,
+    COUNT(DISTINCT v.id) AS video_count
+  FROM videos v,
+  LATERAL regexp_matches(coalesce(v.description, ''), '#([[:alnum:]_]+)', 'g') AS m
+  WHERE lower(m[1]) LIKE prefix || '%'
+  GROUP BY lower(m[1])
+  ORDER BY video_count DESC, tag
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
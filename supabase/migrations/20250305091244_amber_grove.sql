@@ -0,0 +1,257 @@
+/*
+  # Add hashtags
+
+  1. New Tables
+    - `tags` - Unique hashtags used across videos
+      - `id` (uuid, primary key)
+      - `name` (text, unique, lowercase without the leading `#`)
+      - `video_count` (integer)
+      - `created_at` (timestamp)
+    - `video_tags` - Links videos to their tags
+      - `video_id` (uuid, references videos)
+      - `tag_id` (uuid, references tags)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `tags` and `video_tags`
+    - Everyone authenticated can read tags
+    - Only the video owner can change a video's tags
+
+  3. Functions
+    - Add `extract_hashtags` to parse `#hashtags` from text
+    - Add `set_video_tags` to replace the tags of a video
+    - Add `get_tag` and `get_tag_videos` for the tag page
+    - Replace `search_hashtags` to read from `tags`
+    - Backfill tags for existing videos
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (name = lower(name) AND name <> ''),
+  video_count integer DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create video_tags table
+CREATE TABLE IF NOT EXISTS video_tags (
+  video_id uuid REFERENCES videos ON DELETE CASCADE,
+  tag_id uuid REFERENCES tags ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (video_id, tag_id)
+);
+
+-- Enable RLS
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE video_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view all tags"
+  ON tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can view all video tags"
+  ON video_tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can tag their own videos"
+  ON video_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_tags.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can untag their own videos"
+  ON video_tags
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_tags.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+-- Create function to update tag video count
+CREATE OR REPLACE FUNCTION update_tag_video_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    UPDATE tags
+    SET video_count = video_count + 1
+    WHERE id = NEW.tag_id;
+  ELSIF (TG_OP = 'DELETE') THEN
+    UPDATE tags
+    SET video_count = video_count - 1
+    WHERE id = OLD.tag_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger
+CREATE TRIGGER tag_video_count_trigger
+AFTER INSERT OR DELETE ON video_tags
+FOR EACH ROW
+EXECUTE FUNCTION update_tag_video_count();
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_video_tags_tag_id ON video_tags(tag_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tags_video_count ON tags(video_count DESC);
+CREATE INDEX IF NOT EXISTS idx_tags_name_prefix ON tags(name text_pattern_ops);
+
+-- Create function to extract unique lowercase hashtags from text
+CREATE OR REPLACE FUNCTION extract_hashtags(content text)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(DISTINCT lower(m[1])), '{}')
+  FROM regexp_matches(coalesce($1, ''), '#([[:alnum:]_]+)', 'g') AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Create function to replace the tags of a video
+CREATE OR REPLACE FUNCTION set_video_tags(video_id uuid, tag_names text[])
+RETURNS void AS $$
+DECLARE
+  names text[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM videos v
+    WHERE v.id = $1
+    AND v.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the video owner can change its tags';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT lower(n)), '{}')
+  INTO names
+  FROM unnest($2) AS n
+  WHERE n ~ '^[[:alnum:]_]+$';
+
+  INSERT INTO tags (name)
+  SELECT unnest(names)
+  ON CONFLICT (name) DO NOTHING;
+
+  DELETE FROM video_tags vt
+  USING tags t
+  WHERE vt.tag_id = t.id
+  AND vt.video_id = $1
+  AND NOT (t.name = ANY(names));
+
+  INSERT INTO video_tags (video_id, tag_id)
+  SELECT $1, t.id
+  FROM tags t
+  WHERE t.name = ANY(names)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to get a tag with its video count
+CREATE OR REPLACE FUNCTION get_tag(tag_name text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  video_count integer
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.id, t.name, t.video_count
+  FROM tags t
+  WHERE t.name = lower($1);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to get a page of videos for a tag
+CREATE OR REPLACE FUNCTION get_tag_videos(
+  tag_name text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  like_count integer
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    p.username,
+    p.avatar_url,
+    v.like_count
+  FROM tags t
+  JOIN video_tags vt ON vt.tag_id = t.id
+  JOIN videos v ON v.id = vt.video_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE t.name = lower($1)
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Replace hashtag search to use the tags table
+DROP FUNCTION IF EXISTS search_hashtags(text, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_hashtags(
+  query text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  tag text,
+  video_count bigint
+) AS $$
+DECLARE
+  prefix text := lower(regexp_replace($1, '[^[:alnum:]_]', '', 'g'));
+BEGIN
+  IF prefix = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.name AS tag,
+    t.video_count::bigint AS video_count
+  FROM tags t
+  WHERE t.name LIKE prefix || '%'
+  AND t.video_count > 0
+  ORDER BY t.video_count DESC, t.name
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Backfill tags for existing videos
+INSERT INTO tags (name)
+SELECT DISTINCT unnest(extract_hashtags(v.description))
+FROM videos v
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO video_tags (video_id, tag_id)
+SELECT v.id, t.id
+FROM videos v
+CROSS JOIN LATERAL unnest(extract_hashtags(v.description)) AS h(name)
+JOIN tags t ON t.name = h.name
+ON CONFLICT DO NOTHING;
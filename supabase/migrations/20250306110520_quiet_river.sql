@@ -0,0 +1,169 @@
+/*
+  # Add "For You" and "Following" feeds
+
+  1. Functions
+    - Add `get_following_feed` returning videos from creators the current user
+      follows, newest first, paginated with a `(created_at, id)` cursor
+    - Add `get_for_you_feed` returning all videos ranked by engagement
+      (`like_count`, `bookmark_count`, `comment_count`), recency and whether
+      the current user follows the creator, paginated with a `(score, id)` cursor
+
+  2. Ranking
+    - score = (likes + 2 * bookmarks + 3 * comments + 1) * follow_boost
+              / (age_in_hours + 2) ^ 1.5
+    - Age is measured against `feed_time`, which the client keeps constant while
+      paging so recency does not shift between pages
+    - Counts and follows are read live, so a video whose score changes while
+      the user pages can move across the cursor and be skipped or repeated
+
+  3. Security
+    - Functions are created with SECURITY DEFINER and use `auth.uid()` to
+      determine the current user
+*/
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_videos_user_created
+ON videos(user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON follows(follower_id);
+
+-- Create function to get a page of the following feed
+CREATE OR REPLACE FUNCTION get_following_feed(
+  page_size integer DEFAULT 10,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    v.address,
+    v.latitude,
+    v.longitude,
+    v.like_count,
+    v.bookmark_count,
+    v.comment_count,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = v.id
+      ORDER BY t.name
+    ),
+    NULL::float
+  FROM videos v
+  JOIN follows f ON f.following_id = v.user_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE f.follower_id = auth.uid()
+  AND ($2 IS NULL OR (v.created_at, v.id) < ($2, $3))
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to get a page of the ranked "For You" feed
+CREATE OR REPLACE FUNCTION get_for_you_feed(
+  page_size integer DEFAULT 10,
+  feed_time timestamptz DEFAULT now(),
+  cursor_score float DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      v.*,
+      (
+        coalesce(v.like_count, 0)
+        + 2 * coalesce(v.bookmark_count, 0)
+        + 3 * coalesce(v.comment_count, 0)
+        + 1
+      )::float
+      * CASE WHEN f.id IS NOT NULL THEN 2.0 ELSE 1.0 END
+      / power(
+          greatest(extract(epoch FROM ($2 - v.created_at)) / 3600, 0) + 2,
+          1.5
+        ) AS rank_score
+    FROM videos v
+    LEFT JOIN follows f
+      ON f.following_id = v.user_id
+      AND f.follower_id = auth.uid()
+    WHERE v.created_at <= $2
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.video_url,
+    r.thumbnail_url,
+    r.created_at,
+    r.user_id,
+    r.address,
+    r.latitude,
+    r.longitude,
+    r.like_count,
+    r.bookmark_count,
+    r.comment_count,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = r.id
+      ORDER BY t.name
+    ),
+    r.rank_score
+  FROM ranked r
+  LEFT JOIN profiles p ON r.user_id = p.id
+  WHERE $3 IS NULL OR (r.rank_score, r.id) < ($3, $4)
+  ORDER BY r.rank_score DESC, r.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,108 @@
+/*
+  # Add paginated video lists
+
+  1. Functions
+    - Add `get_video_page` returning one page of videos joined with the
+      creator profile for the following lists:
+      - `all` - every video, newest first
+      - `user` - videos uploaded by `owner_id`
+      - `liked` - videos liked by `owner_id`, most recently liked first
+      - `bookmarked` - videos bookmarked by `owner_id`, most recently saved first
+      - `located` - videos with a location, newest first
+    - Pages are keyed by a `(cursor_created_at, cursor_id)` cursor; the
+      `list_cursor_at` column of the last row is the next cursor
+
+  2. Performance
+    - Add indexes backing each list order
+
+  3. Security
+    - Liked and bookmarked lists are only returned for the current user or
+      when the existing RLS policies would allow reading them
+*/
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_videos_created_id
+ON videos(created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_video_likes_user_created
+ON video_likes(user_id, created_at DESC, video_id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_video_bookmarks_user_created
+ON video_bookmarks(user_id, created_at DESC, video_id DESC);
+
+-- Create function to get a page of videos with creator profiles
+CREATE OR REPLACE FUNCTION get_video_page(
+  list_type text DEFAULT 'all',
+  owner_id uuid DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 18
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  username text,
+  avatar_url text,
+  list_cursor_at timestamptz
+) AS $$
+BEGIN
+  IF $1 = 'liked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count,
+      p.username, p.avatar_url,
+      l.created_at
+    FROM video_likes l
+    JOIN videos v ON v.id = l.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE l.user_id = $2
+    AND ($3 IS NULL OR (l.created_at, l.video_id) < ($3, $4))
+    ORDER BY l.created_at DESC, l.video_id DESC
+    LIMIT $5;
+  ELSIF $1 = 'bookmarked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count,
+      p.username, p.avatar_url,
+      b.created_at
+    FROM video_bookmarks b
+    JOIN videos v ON v.id = b.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE b.user_id = $2
+    AND b.user_id = auth.uid()
+    AND ($3 IS NULL OR (b.created_at, b.video_id) < ($3, $4))
+    ORDER BY b.created_at DESC, b.video_id DESC
+    LIMIT $5;
+  ELSE
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count,
+      p.username, p.avatar_url,
+      v.created_at
+    FROM videos v
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE ($1 <> 'user' OR v.user_id = $2)
+    AND ($1 <> 'located' OR (v.latitude IS NOT NULL AND v.longitude IS NOT NULL))
+    AND ($3 IS NULL OR (v.created_at, v.id) < ($3, $4))
+    ORDER BY v.created_at DESC, v.id DESC
+    LIMIT $5;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,316 @@
+/*
+  # Add video views
+
+  1. New Tables
+    - `video_views` - One row per counted view
+      - `id` (uuid, primary key)
+      - `video_id` (uuid, references videos)
+      - `user_id` (uuid, references auth.users)
+      - `session_id` (text) - client playback session, used for de-duplication
+      - `created_at` (timestamp)
+
+  2. Changes to Existing Tables
+    - Add `view_count` to videos table
+
+  3. Security
+    - Enable RLS on `video_views`
+    - Users can record their own views
+    - Users can see their own views and the views of their videos
+
+  4. Triggers
+    - Add trigger to update view count when views are recorded
+
+  5. Functions
+    - Recreate `get_video_page`, `get_following_feed` and `get_for_you_feed`
+      to also return `view_count`
+*/
+
+-- Add view_count to videos table
+ALTER TABLE videos 
+ADD COLUMN IF NOT EXISTS view_count integer DEFAULT 0;
+
+-- Create video_views table
+CREATE TABLE IF NOT EXISTS video_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id uuid REFERENCES videos ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE,
+  session_id text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(video_id, user_id, session_id)
+);
+
+-- Enable RLS
+ALTER TABLE video_views ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own views and views of their videos"
+  ON video_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_views.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record views"
+  ON video_views
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create function to update video view count
+CREATE OR REPLACE FUNCTION update_video_view_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    UPDATE videos 
+    SET view_count = view_count + 1
+    WHERE id = NEW.video_id;
+  ELSIF (TG_OP = 'DELETE') THEN
+    UPDATE videos 
+    SET view_count = view_count - 1
+    WHERE id = OLD.video_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger
+CREATE TRIGGER video_view_count_trigger
+AFTER INSERT OR DELETE ON video_views
+FOR EACH ROW
+EXECUTE FUNCTION update_video_view_count();
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_video_views_video_created ON video_views(video_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_video_views_user_id ON video_views(user_id);
+CREATE INDEX IF NOT EXISTS idx_videos_view_count ON videos(view_count);
+
+-- Recreate list functions with view_count
+DROP FUNCTION IF EXISTS get_video_page(text, uuid, timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS get_following_feed(integer, timestamptz, uuid);
+DROP FUNCTION IF EXISTS get_for_you_feed(integer, timestamptz, float, uuid);
+
+CREATE OR REPLACE FUNCTION get_video_page(
+  list_type text DEFAULT 'all',
+  owner_id uuid DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 18
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  username text,
+  avatar_url text,
+  list_cursor_at timestamptz
+) AS $$
+BEGIN
+  IF $1 = 'liked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      p.username, p.avatar_url,
+      l.created_at
+    FROM video_likes l
+    JOIN videos v ON v.id = l.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE l.user_id = $2
+    AND ($3 IS NULL OR (l.created_at, l.video_id) < ($3, $4))
+    ORDER BY l.created_at DESC, l.video_id DESC
+    LIMIT $5;
+  ELSIF $1 = 'bookmarked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      p.username, p.avatar_url,
+      b.created_at
+    FROM video_bookmarks b
+    JOIN videos v ON v.id = b.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE b.user_id = $2
+    AND b.user_id = auth.uid()
+    AND ($3 IS NULL OR (b.created_at, b.video_id) < ($3, $4))
+    ORDER BY b.created_at DESC, b.video_id DESC
+    LIMIT $5;
+  ELSE
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      p.username, p.avatar_url,
+      v.created_at
+    FROM videos v
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE ($1 <> 'user' OR v.user_id = $2)
+    AND ($1 <> 'located' OR (v.latitude IS NOT NULL AND v.longitude IS NOT NULL))
+    AND ($3 IS NULL OR (v.created_at, v.id) < ($3, $4))
+    ORDER BY v.created_at DESC, v.id DESC
+    LIMIT $5;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_following_feed(
+  page_size integer DEFAULT 10,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    v.address,
+    v.latitude,
+    v.longitude,
+    v.like_count,
+    v.bookmark_count,
+    v.comment_count,
+    v.view_count,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = v.id
+      ORDER BY t.name
+    ),
+    NULL::float
+  FROM videos v
+  JOIN follows f ON f.following_id = v.user_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE f.follower_id = auth.uid()
+  AND ($2 IS NULL OR (v.created_at, v.id) < ($2, $3))
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_for_you_feed(
+  page_size integer DEFAULT 10,
+  feed_time timestamptz DEFAULT now(),
+  cursor_score float DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      v.*,
+      (
+        coalesce(v.like_count, 0)
+        + 2 * coalesce(v.bookmark_count, 0)
+        + 3 * coalesce(v.comment_count, 0)
+        + 1
+      )::float
+      * CASE WHEN f.id IS NOT NULL THEN 2.0 ELSE 1.0 END
+      / power(
+          greatest(extract(epoch FROM ($2 - v.created_at)) / 3600, 0) + 2,
+          1.5
+        ) AS rank_score
+    FROM videos v
+    LEFT JOIN follows f
+      ON f.following_id = v.user_id
+      AND f.follower_id = auth.uid()
+    WHERE v.created_at <= $2
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.video_url,
+    r.thumbnail_url,
+    r.created_at,
+    r.user_id,
+    r.address,
+    r.latitude,
+    r.longitude,
+    r.like_count,
+    r.bookmark_count,
+    r.comment_count,
+    r.view_count,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = r.id
+      ORDER BY t.name
+    ),
+    r.rank_score
+  FROM ranked r
+  LEFT JOIN profiles p ON r.user_id = p.id
+  WHERE $3 IS NULL OR (r.rank_score, r.id) < ($3, $4)
+  ORDER BY r.rank_score DESC, r.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
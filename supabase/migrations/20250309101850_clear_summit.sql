@@ -0,0 +1,121 @@
+/*
+  # Add creator analytics
+
+  1. Functions
+    - Add `get_creator_analytics_summary` returning totals of views, likes,
+      comments, shares and bookmarks across the current user's videos along
+      with their follower count
+    - Add `get_creator_video_analytics` returning the same metrics per video,
+      newest video first
+    - Add `get_follower_growth` returning new and cumulative followers per day
+      for the last `days` days
+
+  2. Notes
+    - Metrics are aggregated from the interaction tables (`video_views`,
+      `video_likes`, `video_comments`, `video_shares`, `video_bookmarks`)
+      rather than the denormalized counters
+    - Unfollows delete the `follows` row, so follower growth reflects the
+      follow dates of current followers
+
+  3. Security
+    - Functions are created with SECURITY DEFINER, only ever aggregate data
+      for videos owned by `auth.uid()` and never expose who interacted
+*/
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_video_shares_video_id ON video_shares(video_id);
+CREATE INDEX IF NOT EXISTS idx_follows_following_created ON follows(following_id, created_at);
+
+-- Create function to get analytics totals for the current user
+CREATE OR REPLACE FUNCTION get_creator_analytics_summary()
+RETURNS TABLE (
+  video_count bigint,
+  view_count bigint,
+  like_count bigint,
+  comment_count bigint,
+  share_count bigint,
+  bookmark_count bigint,
+  follower_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH own_videos AS (
+    SELECT v.id FROM videos v WHERE v.user_id = auth.uid()
+  )
+  SELECT
+    (SELECT COUNT(*) FROM own_videos),
+    (SELECT COUNT(*) FROM video_views x WHERE x.video_id IN (SELECT ov.id FROM own_videos ov)),
+    (SELECT COUNT(*) FROM video_likes x WHERE x.video_id IN (SELECT ov.id FROM own_videos ov)),
+    (SELECT COUNT(*) FROM video_comments x WHERE x.video_id IN (SELECT ov.id FROM own_videos ov)),
+    (SELECT COUNT(*) FROM video_shares x WHERE x.video_id IN (SELECT ov.id FROM own_videos ov)),
+    (SELECT COUNT(*) FROM video_bookmarks x WHERE x.video_id IN (SELECT ov.id FROM own_videos ov)),
+    (SELECT COUNT(*) FROM follows f WHERE f.following_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to get per-video analytics for the current user
+CREATE OR REPLACE FUNCTION get_creator_video_analytics(
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  thumbnail_url text,
+  created_at timestamptz,
+  view_count bigint,
+  like_count bigint,
+  comment_count bigint,
+  share_count bigint,
+  bookmark_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.thumbnail_url,
+    v.created_at,
+    (SELECT COUNT(*) FROM video_views x WHERE x.video_id = v.id),
+    (SELECT COUNT(*) FROM video_likes x WHERE x.video_id = v.id),
+    (SELECT COUNT(*) FROM video_comments x WHERE x.video_id = v.id),
+    (SELECT COUNT(*) FROM video_shares x WHERE x.video_id = v.id),
+    (SELECT COUNT(*) FROM video_bookmarks x WHERE x.video_id = v.id)
+  FROM videos v
+  WHERE v.user_id = auth.uid()
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $1
+  OFFSET $2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to get daily follower growth for the current user
+CREATE OR REPLACE FUNCTION get_follower_growth(days integer DEFAULT 30)
+RETURNS TABLE (
+  day date,
+  new_followers bigint,
+  total_followers bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    (
+      SELECT COUNT(*) FROM follows f
+      WHERE f.following_id = auth.uid()
+      AND f.created_at >= d.day
+      AND f.created_at < d.day + interval '1 day'
+    ),
+    (
+      SELECT COUNT(*) FROM follows f
+      WHERE f.following_id = auth.uid()
+      AND f.created_at < d.day + interval '1 day'
+    )
+  FROM generate_series(
+    date_trunc('day', now()) - (greatest($1, 1) - 1) * interval '1 day',
+    date_trunc('day', now()),
+    interval '1 day'
+  ) AS d(day)
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
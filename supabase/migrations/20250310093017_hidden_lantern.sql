@@ -0,0 +1,691 @@
+/*
+  # Add video visibility and scheduled publishing
+
+  1. Changes to Existing Tables
+    - Add `visibility` to videos table
+      - `public` - everyone can see it and it is shown in feeds, map and search
+      - `followers` - only followers of the creator can see it
+      - `private` - only the creator can see it
+      - `unlisted` - anyone with the link can open it, but it is not listed
+    - Add `publish_at` to videos table; videos with a `publish_at` in the
+      future are only visible to their creator until that time
+
+  2. Functions
+    - Add `video_is_visible` - whether the current user may open a video
+    - Add `video_is_listed` - whether a video may appear in feeds and lists
+    - Recreate `get_video_page`, `get_following_feed` and `get_for_you_feed`
+      to only return listed videos and to return `visibility` and `publish_at`
+    - Recreate `search_videos` and `get_tag_videos` to only return listed videos
+    - Recreate `get_tag` and `search_hashtags` to only count listed videos
+    - Recreate `get_videos_with_profiles`, `get_video_with_profile` and
+      `get_video_comments` to leave out videos the user can't see
+
+  3. Security
+    - Replace "Users can view all videos" with a policy based on
+      `video_is_visible`
+    - Replace the open select policies of likes, comments, shares and video
+      tags so they are only readable for videos the user can see
+    - Revoke direct access to the `video_user_profiles` materialized view,
+      which can't have RLS policies; search reads it through `search_videos`
+
+  4. Known Limitations
+    - Video files and thumbnails of every visibility are still stored in the
+      public `videos` and `video-thumbnails` buckets, so anyone who has the
+      url of a private or followers-only video can still download it. Moving
+      them to a private bucket served through signed urls is left for a later
+      change.
+*/
+
+-- Add visibility and publish_at to videos table
+ALTER TABLE videos
+ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'followers', 'private', 'unlisted')),
+ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_videos_visibility_publish_at
+ON videos(visibility, publish_at);
+
+-- Create function to check whether the current user may open a video
+CREATE OR REPLACE FUNCTION video_is_visible(
+  owner_id uuid,
+  video_visibility text,
+  video_publish_at timestamptz
+)
+RETURNS boolean AS $$
+BEGIN
+  IF $1 = auth.uid() THEN
+    RETURN true;
+  END IF;
+
+  IF $3 IS NOT NULL AND $3 > now() THEN
+    RETURN false;
+  END IF;
+
+  IF $2 IN ('public', 'unlisted') THEN
+    RETURN true;
+  END IF;
+
+  IF $2 = 'followers' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM follows f
+      WHERE f.follower_id = auth.uid()
+      AND f.following_id = $1
+    );
+  END IF;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to check whether a video may appear in feeds, map and search
+CREATE OR REPLACE FUNCTION video_is_listed(
+  owner_id uuid,
+  video_visibility text,
+  video_publish_at timestamptz
+)
+RETURNS boolean AS $$
+BEGIN
+  IF $2 NOT IN ('public', 'followers') THEN
+    RETURN false;
+  END IF;
+
+  IF $3 IS NOT NULL AND $3 > now() THEN
+    RETURN false;
+  END IF;
+
+  RETURN $2 = 'public' OR video_is_visible($1, $2, $3);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Replace the open select policy
+DROP POLICY IF EXISTS "Users can view all videos" ON videos;
+
+CREATE POLICY "Users can view visible videos"
+  ON videos
+  FOR SELECT
+  TO authenticated
+  USING (video_is_visible(user_id, visibility, publish_at));
+
+-- Replace the open select policies of tables that belong to a video
+DROP POLICY IF EXISTS "Users can view all likes" ON video_likes;
+DROP POLICY IF EXISTS "Users can view all comments" ON video_comments;
+DROP POLICY IF EXISTS "Users can view all shares" ON video_shares;
+DROP POLICY IF EXISTS "Users can view all video tags" ON video_tags;
+
+CREATE POLICY "Users can view likes of visible videos"
+  ON video_likes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_likes.video_id
+      AND video_is_visible(videos.user_id, videos.visibility, videos.publish_at)
+    )
+  );
+
+CREATE POLICY "Users can view comments of visible videos"
+  ON video_comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_comments.video_id
+      AND video_is_visible(videos.user_id, videos.visibility, videos.publish_at)
+    )
+  );
+
+CREATE POLICY "Users can view shares of visible videos"
+  ON video_shares
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_shares.video_id
+      AND video_is_visible(videos.user_id, videos.visibility, videos.publish_at)
+    )
+  );
+
+CREATE POLICY "Users can view tags of visible videos"
+  ON video_tags
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_tags.video_id
+      AND video_is_visible(videos.user_id, videos.visibility, videos.publish_at)
+    )
+  );
+
+-- Recreate list functions with visibility
+DROP FUNCTION IF EXISTS get_video_page(text, uuid, timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS get_following_feed(integer, timestamptz, uuid);
+DROP FUNCTION IF EXISTS get_for_you_feed(integer, timestamptz, float, uuid);
+
+CREATE OR REPLACE FUNCTION get_video_page(
+  list_type text DEFAULT 'all',
+  owner_id uuid DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 18
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  list_cursor_at timestamptz
+) AS $$
+BEGIN
+  IF $1 = 'liked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      v.visibility, v.publish_at,
+      p.username, p.avatar_url,
+      l.created_at
+    FROM video_likes l
+    JOIN videos v ON v.id = l.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE l.user_id = $2
+    AND video_is_visible(v.user_id, v.visibility, v.publish_at)
+    AND ($3 IS NULL OR (l.created_at, l.video_id) < ($3, $4))
+    ORDER BY l.created_at DESC, l.video_id DESC
+    LIMIT $5;
+  ELSIF $1 = 'bookmarked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      v.visibility, v.publish_at,
+      p.username, p.avatar_url,
+      b.created_at
+    FROM video_bookmarks b
+    JOIN videos v ON v.id = b.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE b.user_id = $2
+    AND b.user_id = auth.uid()
+    AND video_is_visible(v.user_id, v.visibility, v.publish_at)
+    AND ($3 IS NULL OR (b.created_at, b.video_id) < ($3, $4))
+    ORDER BY b.created_at DESC, b.video_id DESC
+    LIMIT $5;
+  ELSE
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      v.visibility, v.publish_at,
+      p.username, p.avatar_url,
+      v.created_at
+    FROM videos v
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE ($1 <> 'user' OR v.user_id = $2)
+    AND ($1 <> 'located' OR (v.latitude IS NOT NULL AND v.longitude IS NOT NULL))
+    -- Creators see all of their own uploads on their profile
+    AND (
+      ($1 = 'user' AND v.user_id = auth.uid())
+      OR video_is_listed(v.user_id, v.visibility, v.publish_at)
+    )
+    AND ($3 IS NULL OR (v.created_at, v.id) < ($3, $4))
+    ORDER BY v.created_at DESC, v.id DESC
+    LIMIT $5;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_following_feed(
+  page_size integer DEFAULT 10,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    v.address,
+    v.latitude,
+    v.longitude,
+    v.like_count,
+    v.bookmark_count,
+    v.comment_count,
+    v.view_count,
+    v.visibility,
+    v.publish_at,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = v.id
+      ORDER BY t.name
+    ),
+    NULL::float
+  FROM videos v
+  JOIN follows f ON f.following_id = v.user_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE f.follower_id = auth.uid()
+  AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  AND ($2 IS NULL OR (v.created_at, v.id) < ($2, $3))
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_for_you_feed(
+  page_size integer DEFAULT 10,
+  feed_time timestamptz DEFAULT now(),
+  cursor_score float DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      v.*,
+      (
+        coalesce(v.like_count, 0)
+        + 2 * coalesce(v.bookmark_count, 0)
+        + 3 * coalesce(v.comment_count, 0)
+        + 1
+      )::float
+      * CASE WHEN f.id IS NOT NULL THEN 2.0 ELSE 1.0 END
+      / power(
+          -- Scheduled videos rank from the time they were published
+          greatest(extract(epoch FROM ($2 - greatest(v.created_at, coalesce(v.publish_at, v.created_at)))) / 3600, 0) + 2,
+          1.5
+        ) AS rank_score
+    FROM videos v
+    LEFT JOIN follows f
+      ON f.following_id = v.user_id
+      AND f.follower_id = auth.uid()
+    WHERE v.created_at <= $2
+    AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.video_url,
+    r.thumbnail_url,
+    r.created_at,
+    r.user_id,
+    r.address,
+    r.latitude,
+    r.longitude,
+    r.like_count,
+    r.bookmark_count,
+    r.comment_count,
+    r.view_count,
+    r.visibility,
+    r.publish_at,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = r.id
+      ORDER BY t.name
+    ),
+    r.rank_score
+  FROM ranked r
+  LEFT JOIN profiles p ON r.user_id = p.id
+  WHERE $3 IS NULL OR (r.rank_score, r.id) < ($3, $4)
+  ORDER BY r.rank_score DESC, r.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recreate video search to only return listed videos. Visibility is read from
+-- the videos table because the materialized view may be stale.
+CREATE OR REPLACE FUNCTION search_videos(
+  query text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  like_count integer,
+  rank real
+) AS $$
+DECLARE
+  ts_query tsquery := build_search_query($1);
+BEGIN
+  IF ts_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    vup.id,
+    vup.title,
+    vup.description,
+    vup.video_url,
+    vup.thumbnail_url,
+    vup.created_at,
+    vup.user_id,
+    vup.username,
+    vup.avatar_url,
+    vup.like_count,
+    ts_rank(vup.search_vector, ts_query) AS rank
+  FROM video_user_profiles vup
+  JOIN videos v ON v.id = vup.id
+  WHERE vup.search_vector @@ ts_query
+  AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  ORDER BY rank DESC, vup.created_at DESC, vup.id
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recreate tag videos to only return listed videos
+CREATE OR REPLACE FUNCTION get_tag_videos(
+  tag_name text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  like_count integer
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    p.username,
+    p.avatar_url,
+    v.like_count
+  FROM tags t
+  JOIN video_tags vt ON vt.tag_id = t.id
+  JOIN videos v ON v.id = vt.video_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE t.name = lower($1)
+  AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Materialized views can't have RLS, so the view is only read by functions
+REVOKE SELECT ON video_user_profiles FROM public, anon, authenticated;
+
+-- Recreate tag lookups to only count listed videos
+CREATE OR REPLACE FUNCTION get_tag(tag_name text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  video_count integer
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.name,
+    (
+      SELECT COUNT(*)::integer
+      FROM video_tags vt
+      JOIN videos v ON v.id = vt.video_id
+      WHERE vt.tag_id = t.id
+      AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+    )
+  FROM tags t
+  WHERE t.name = lower($1);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION search_hashtags(
+  query text,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  tag text,
+  video_count bigint
+) AS $$
+DECLARE
+  prefix text := lower(regexp_replace($1, '[^[:alnum:]_]', '', 'g'));
+BEGIN
+  IF prefix = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.name AS tag,
+    COUNT(*) AS video_count
+  FROM tags t
+  JOIN video_tags vt ON vt.tag_id = t.id
+  JOIN videos v ON v.id = vt.video_id
+  WHERE t.name LIKE prefix || '%'
+  AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  GROUP BY t.name
+  ORDER BY COUNT(*) DESC, t.name
+  LIMIT $2
+  OFFSET $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recreate the original video functions with visibility
+CREATE OR REPLACE FUNCTION get_videos_with_profiles()
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  user_id uuid,
+  created_at timestamptz,
+  username text,
+  avatar_url text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.user_id,
+    v.created_at,
+    p.username,
+    p.avatar_url
+  FROM videos v
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE video_is_listed(v.user_id, v.visibility, v.publish_at)
+  ORDER BY v.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_video_with_profile(video_id uuid)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  user_id uuid,
+  created_at timestamptz,
+  username text,
+  avatar_url text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.user_id,
+    v.created_at,
+    p.username,
+    p.avatar_url
+  FROM videos v
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE v.id = $1
+  AND video_is_visible(v.user_id, v.visibility, v.publish_at);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recreate comments to only be readable on videos the user can open
+CREATE OR REPLACE FUNCTION get_video_comments(
+  p_video_id uuid,
+  p_parent_id uuid DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  video_id uuid,
+  user_id uuid,
+  parent_id uuid,
+  content text,
+  created_at timestamptz,
+  username text,
+  avatar_url text,
+  reply_count bigint
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM videos v
+    WHERE v.id = $1
+    AND video_is_visible(v.user_id, v.visibility, v.publish_at)
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF $2 IS NULL THEN
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.video_id,
+      c.user_id,
+      c.parent_id,
+      c.content,
+      c.created_at,
+      p.username,
+      p.avatar_url,
+      (SELECT COUNT(*) FROM video_comments r WHERE r.parent_id = c.id)
+    FROM video_comments c
+    LEFT JOIN profiles p ON c.user_id = p.id
+    WHERE c.video_id = $1
+    AND c.parent_id IS NULL
+    AND ($3 IS NULL OR (c.created_at, c.id) < ($3, $4))
+    ORDER BY c.created_at DESC, c.id DESC
+    LIMIT $5;
+  ELSE
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.video_id,
+      c.user_id,
+      c.parent_id,
+      c.content,
+      c.created_at,
+      p.username,
+      p.avatar_url,
+      0::bigint
+    FROM video_comments c
+    LEFT JOIN profiles p ON c.user_id = p.id
+    WHERE c.video_id = $1
+    AND c.parent_id = $2
+    AND ($3 IS NULL OR (c.created_at, c.id) > ($3, $4))
+    ORDER BY c.created_at ASC, c.id ASC
+    LIMIT $5;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,320 @@
+/*
+  # Add HLS renditions for videos
+
+  1. Changes to Existing Tables
+    - Add `hls_url` to videos table, the public url of the HLS master playlist
+    - Add `hls_status` to videos table
+      - `pending` - waiting to be packaged, the default for new and existing videos
+      - `processing` - claimed by a packaging worker
+      - `ready` - `hls_url` points to the playlist
+      - `failed` - packaging failed, the video is only served as MP4
+    - Add `hls_claimed_at` to videos table, when a worker started packaging
+
+  2. Functions
+    - Add `claim_hls_job` - lets a packaging worker take the oldest pending
+      video, only callable with the service role
+    - Recreate `get_video_page`, `get_following_feed` and `get_for_you_feed`
+      to return `hls_url`
+
+  3. Known Limitations
+    - Playlists and segments are written next to the MP4 in the public
+      `videos` bucket, so like the MP4 they can be downloaded by anyone who
+      has the url, whatever the visibility of the video
+*/
+
+-- Add HLS columns to videos table
+ALTER TABLE videos
+ADD COLUMN IF NOT EXISTS hls_url text,
+ADD COLUMN IF NOT EXISTS hls_status text NOT NULL DEFAULT 'pending'
+  CHECK (hls_status IN ('pending', 'processing', 'ready', 'failed')),
+ADD COLUMN IF NOT EXISTS hls_claimed_at timestamptz;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_videos_hls_pending
+ON videos(created_at)
+WHERE hls_status = 'pending';
+
+-- Create function for packaging workers to claim the next video. Jobs stuck
+-- in processing for an hour are assumed to belong to a crashed worker.
+CREATE OR REPLACE FUNCTION claim_hls_job()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  video_url text
+) AS $$
+BEGIN
+  UPDATE videos
+  SET hls_status = 'pending'
+  WHERE videos.hls_status = 'processing'
+  AND videos.hls_claimed_at < now() - interval '1 hour';
+
+  RETURN QUERY
+  UPDATE videos
+  SET hls_status = 'processing',
+      hls_claimed_at = now()
+  WHERE videos.id = (
+    SELECT v.id
+    FROM videos v
+    WHERE v.hls_status = 'pending'
+    ORDER BY v.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING videos.id, videos.user_id, videos.video_url;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_hls_job() FROM public, anon, authenticated;
+
+-- Recreate list functions with hls_url
+DROP FUNCTION IF EXISTS get_video_page(text, uuid, timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS get_following_feed(integer, timestamptz, uuid);
+DROP FUNCTION IF EXISTS get_for_you_feed(integer, timestamptz, float, uuid);
+
+CREATE OR REPLACE FUNCTION get_video_page(
+  list_type text DEFAULT 'all',
+  owner_id uuid DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 18
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  hls_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  list_cursor_at timestamptz
+) AS $$
+BEGIN
+  IF $1 = 'liked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.hls_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      v.visibility, v.publish_at,
+      p.username, p.avatar_url,
+      l.created_at
+    FROM video_likes l
+    JOIN videos v ON v.id = l.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE l.user_id = $2
+    AND video_is_visible(v.user_id, v.visibility, v.publish_at)
+    AND ($3 IS NULL OR (l.created_at, l.video_id) < ($3, $4))
+    ORDER BY l.created_at DESC, l.video_id DESC
+    LIMIT $5;
+  ELSIF $1 = 'bookmarked' THEN
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.hls_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      v.visibility, v.publish_at,
+      p.username, p.avatar_url,
+      b.created_at
+    FROM video_bookmarks b
+    JOIN videos v ON v.id = b.video_id
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE b.user_id = $2
+    AND b.user_id = auth.uid()
+    AND video_is_visible(v.user_id, v.visibility, v.publish_at)
+    AND ($3 IS NULL OR (b.created_at, b.video_id) < ($3, $4))
+    ORDER BY b.created_at DESC, b.video_id DESC
+    LIMIT $5;
+  ELSE
+    RETURN QUERY
+    SELECT
+      v.id, v.title, v.description, v.video_url, v.hls_url, v.thumbnail_url, v.created_at,
+      v.user_id, v.address, v.latitude, v.longitude,
+      v.like_count, v.bookmark_count, v.comment_count, v.view_count,
+      v.visibility, v.publish_at,
+      p.username, p.avatar_url,
+      v.created_at
+    FROM videos v
+    LEFT JOIN profiles p ON v.user_id = p.id
+    WHERE ($1 <> 'user' OR v.user_id = $2)
+    AND ($1 <> 'located' OR (v.latitude IS NOT NULL AND v.longitude IS NOT NULL))
+    -- Creators see all of their own uploads on their profile
+    AND (
+      ($1 = 'user' AND v.user_id = auth.uid())
+      OR video_is_listed(v.user_id, v.visibility, v.publish_at)
+    )
+    AND ($3 IS NULL OR (v.created_at, v.id) < ($3, $4))
+    ORDER BY v.created_at DESC, v.id DESC
+    LIMIT $5;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_following_feed(
+  page_size integer DEFAULT 10,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  hls_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.hls_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    v.address,
+    v.latitude,
+    v.longitude,
+    v.like_count,
+    v.bookmark_count,
+    v.comment_count,
+    v.view_count,
+    v.visibility,
+    v.publish_at,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = v.id
+      ORDER BY t.name
+    ),
+    NULL::float
+  FROM videos v
+  JOIN follows f ON f.following_id = v.user_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE f.follower_id = auth.uid()
+  AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  AND ($2 IS NULL OR (v.created_at, v.id) < ($2, $3))
+  ORDER BY v.created_at DESC, v.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_for_you_feed(
+  page_size integer DEFAULT 10,
+  feed_time timestamptz DEFAULT now(),
+  cursor_score float DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  hls_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      v.*,
+      (
+        coalesce(v.like_count, 0)
+        + 2 * coalesce(v.bookmark_count, 0)
+        + 3 * coalesce(v.comment_count, 0)
+        + 1
+      )::float
+      * CASE WHEN f.id IS NOT NULL THEN 2.0 ELSE 1.0 END
+      / power(
+          -- Scheduled videos rank from the time they were published
+          greatest(extract(epoch FROM ($2 - greatest(v.created_at, coalesce(v.publish_at, v.created_at)))) / 3600, 0) + 2,
+          1.5
+        ) AS rank_score
+    FROM videos v
+    LEFT JOIN follows f
+      ON f.following_id = v.user_id
+      AND f.follower_id = auth.uid()
+    WHERE v.created_at <= $2
+    AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.description,
+    r.video_url,
+    r.hls_url,
+    r.thumbnail_url,
+    r.created_at,
+    r.user_id,
+    r.address,
+    r.latitude,
+    r.longitude,
+    r.like_count,
+    r.bookmark_count,
+    r.comment_count,
+    r.view_count,
+    r.visibility,
+    r.publish_at,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = r.id
+      ORDER BY t.name
+    ),
+    r.rank_score
+  FROM ranked r
+  LEFT JOIN profiles p ON r.user_id = p.id
+  WHERE $3 IS NULL OR (r.rank_score, r.id) < ($3, $4)
+  ORDER BY r.rank_score DESC, r.id DESC
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
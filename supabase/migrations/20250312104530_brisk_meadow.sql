@@ -0,0 +1,14 @@
+/*
+  # Enable realtime for video counters
+
+  1. Changes
+    - Add videos table to the realtime publication, so clients can reconcile
+      optimistic likes and bookmarks with the counts kept by triggers
+
+  2. Security
+    - Realtime events follow the existing select policy, so users only
+      receive updates for videos they are allowed to see
+*/
+
+-- Enable real-time for videos table
+ALTER PUBLICATION supabase_realtime ADD TABLE videos;
@@ -0,0 +1,318 @@
+/*
+  # Add conversations for direct messages
+
+  1. New Tables
+    - `conversations`
+      - `id` (uuid, primary key)
+      - `direct_key` (text, unique) - the two participants of a direct
+        conversation, so each pair of users shares a single conversation
+      - `last_message_id` (uuid, references messages)
+      - `last_message_at` (timestamp) - last activity, used to order the list
+      - `created_at` (timestamp)
+    - `conversation_participants`
+      - `conversation_id` (uuid, references conversations)
+      - `user_id` (uuid, references auth.users)
+      - `unread_count` (integer) - messages this participant hasn't read yet
+      - `last_read_at` (timestamp)
+      - `joined_at` (timestamp)
+
+  2. Changes to Existing Tables
+    - Add `conversation_id` to messages table
+    - Move existing messages into a conversation per pair of users, with
+      their last message and unread counts
+
+  3. Security
+    - Enable RLS on `conversations` and `conversation_participants`
+    - Participants can see their conversations and who else takes part
+    - Messages can only be sent to and read in conversations the user takes
+      part in
+    - Conversations are only created and changed through functions and
+      triggers
+
+  4. Triggers
+    - Check that the receiver of a message takes part in its conversation
+    - Update the last message and unread counts when messages are sent
+
+  5. Functions
+    - Add `get_or_create_direct_conversation` - conversation with another user
+    - Add `get_conversations` - page of the user's conversations ordered by
+      last activity
+    - Add `mark_conversation_read` - reset the user's unread count
+*/
+
+-- Create conversations table
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  direct_key text UNIQUE,
+  last_message_id uuid REFERENCES messages ON DELETE SET NULL,
+  last_message_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create conversation_participants table
+CREATE TABLE IF NOT EXISTS conversation_participants (
+  conversation_id uuid REFERENCES conversations ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE,
+  unread_count integer NOT NULL DEFAULT 0,
+  last_read_at timestamptz,
+  joined_at timestamptz DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+-- Add conversation reference to messages
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations ON DELETE CASCADE;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user_id
+ON conversation_participants(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at
+ON conversations(last_message_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+ON messages(conversation_id, created_at);
+
+-- Create function to check whether the current user takes part in a conversation
+CREATE OR REPLACE FUNCTION is_conversation_participant(conversation_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM conversation_participants cp
+    WHERE cp.conversation_id = $1
+    AND cp.user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to find or create the conversation between two users
+CREATE OR REPLACE FUNCTION ensure_direct_conversation(user_a uuid, user_b uuid)
+RETURNS uuid AS $$
+DECLARE
+  pair_key text := LEAST($1, $2)::text || ':' || GREATEST($1, $2)::text;
+  result uuid;
+BEGIN
+  INSERT INTO conversations (direct_key)
+  VALUES (pair_key)
+  ON CONFLICT (direct_key) DO NOTHING;
+
+  SELECT c.id INTO result
+  FROM conversations c
+  WHERE c.direct_key = pair_key;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  VALUES (result, $1), (result, $2)
+  ON CONFLICT DO NOTHING;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION ensure_direct_conversation(uuid, uuid) FROM public, anon, authenticated;
+
+-- Move existing messages into conversations
+DO $$
+DECLARE
+  pair record;
+  conversation uuid;
+BEGIN
+  FOR pair IN
+    SELECT DISTINCT
+      LEAST(m.sender_id, m.receiver_id) AS user_a,
+      GREATEST(m.sender_id, m.receiver_id) AS user_b
+    FROM messages m
+    WHERE m.sender_id IS NOT NULL
+    AND m.receiver_id IS NOT NULL
+    AND m.conversation_id IS NULL
+  LOOP
+    conversation := ensure_direct_conversation(pair.user_a, pair.user_b);
+
+    UPDATE messages m
+    SET conversation_id = conversation
+    WHERE LEAST(m.sender_id, m.receiver_id) = pair.user_a
+    AND GREATEST(m.sender_id, m.receiver_id) = pair.user_b;
+  END LOOP;
+END $$;
+
+UPDATE conversations c
+SET last_message_id = latest.id, last_message_at = latest.created_at
+FROM (
+  SELECT DISTINCT ON (m.conversation_id) m.conversation_id, m.id, m.created_at
+  FROM messages m
+  WHERE m.conversation_id IS NOT NULL
+  ORDER BY m.conversation_id, m.created_at DESC, m.id DESC
+) latest
+WHERE latest.conversation_id = c.id;
+
+UPDATE conversation_participants cp
+SET unread_count = unread.total
+FROM (
+  SELECT m.conversation_id, m.receiver_id, COUNT(*)::integer AS total
+  FROM messages m
+  WHERE m.read IS NOT TRUE
+  GROUP BY m.conversation_id, m.receiver_id
+) unread
+WHERE unread.conversation_id = cp.conversation_id
+AND unread.receiver_id = cp.user_id;
+
+-- Enable RLS
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_participants ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their conversations"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (is_conversation_participant(id));
+
+CREATE POLICY "Users can view participants of their conversations"
+  ON conversation_participants
+  FOR SELECT
+  TO authenticated
+  USING (is_conversation_participant(conversation_id));
+
+-- Replace message policies with conversation based ones
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+DROP POLICY IF EXISTS "Users can read their own messages" ON messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND is_conversation_participant(conversation_id)
+  );
+
+CREATE POLICY "Users can read messages of their conversations"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (is_conversation_participant(conversation_id));
+
+-- Ensure the receiver of a message takes part in its conversation
+CREATE OR REPLACE FUNCTION check_message_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.receiver_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+    AND user_id = NEW.receiver_id
+  ) THEN
+    RAISE EXCEPTION 'Receiver must take part in the conversation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER message_conversation_trigger
+BEFORE INSERT ON messages
+FOR EACH ROW
+EXECUTE FUNCTION check_message_conversation();
+
+-- Create function to update the last message and unread counts
+-- Sending a message also marks the conversation as read for the sender.
+CREATE OR REPLACE FUNCTION update_conversation_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations
+  SET last_message_id = NEW.id, last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE conversation_participants
+  SET
+    unread_count = CASE WHEN user_id = NEW.sender_id THEN 0 ELSE unread_count + 1 END,
+    last_read_at = CASE WHEN user_id = NEW.sender_id THEN NEW.created_at ELSE last_read_at END
+  WHERE conversation_id = NEW.conversation_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER conversation_last_message_trigger
+AFTER INSERT ON messages
+FOR EACH ROW
+EXECUTE FUNCTION update_conversation_last_message();
+
+-- Create function to get the conversation with another user
+CREATE OR REPLACE FUNCTION get_or_create_direct_conversation(other_user_id uuid)
+RETURNS uuid AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF $1 = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot start a conversation with yourself';
+  END IF;
+
+  RETURN ensure_direct_conversation(auth.uid(), $1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to get a page of conversations with the other participant
+-- Conversations without messages are only returned when asked for by id.
+CREATE OR REPLACE FUNCTION get_conversations(
+  cursor_last_message_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  conversation_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_sender_id uuid,
+  last_message_at timestamptz,
+  unread_count integer,
+  other_user_id uuid,
+  username text,
+  avatar_url text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.last_message_id,
+    m.content,
+    m.sender_id,
+    c.last_message_at,
+    cp.unread_count,
+    o.user_id,
+    p.username,
+    p.avatar_url
+  FROM conversation_participants cp
+  JOIN conversations c ON c.id = cp.conversation_id
+  LEFT JOIN messages m ON m.id = c.last_message_id
+  LEFT JOIN conversation_participants o ON o.conversation_id = c.id AND o.user_id <> cp.user_id
+  LEFT JOIN profiles p ON p.id = o.user_id
+  WHERE cp.user_id = auth.uid()
+  AND ($4 IS NULL OR c.id = $4)
+  AND (c.last_message_id IS NOT NULL OR c.id = $4)
+  AND ($1 IS NULL OR (c.last_message_at, c.id) < ($1, $2))
+  ORDER BY c.last_message_at DESC, c.id DESC
+  LIMIT $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to mark a conversation as read
+CREATE OR REPLACE FUNCTION mark_conversation_read(conversation_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE conversation_participants cp
+  SET unread_count = 0, last_read_at = now()
+  WHERE cp.conversation_id = $1
+  AND cp.user_id = auth.uid();
+
+  UPDATE messages m
+  SET read = true
+  WHERE m.conversation_id = $1
+  AND m.receiver_id = auth.uid()
+  AND m.read IS NOT TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable real-time for conversation_participants table
+ALTER PUBLICATION supabase_realtime ADD TABLE conversation_participants;
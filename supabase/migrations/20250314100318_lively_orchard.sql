@@ -0,0 +1,290 @@
+/*
+  # Add group conversations
+
+  1. Changes to Existing Tables
+    - Add `is_group`, `name`, `avatar_url` and `created_by` to conversations
+    - Add `role` to conversation_participants
+      - `admin` - can rename the group, change its avatar and manage members
+      - `member` - can read and send messages
+
+  2. Functions
+    - Add `create_group_conversation` - creates a group with the current user
+      as its admin
+    - Add `update_group_conversation` - changes the name and avatar
+    - Add `add_conversation_members` and `remove_conversation_member`
+    - Add `set_conversation_member_role` - promotes or demotes a member
+    - Add `get_conversation_members` - members of a conversation with profiles
+    - Recreate `get_conversations` to return group details, the role of the
+      user and the sender of the last message
+
+  3. Security
+    - Only admins can change a group and its members; members can leave
+    - When the last admin leaves, the longest standing member becomes admin
+    - Existing policies keep reads and writes limited to members
+*/
+
+-- Add group details to conversations
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS is_group boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS name text,
+ADD COLUMN IF NOT EXISTS avatar_url text,
+ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users ON DELETE SET NULL;
+
+-- Add member roles
+ALTER TABLE conversation_participants
+ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'member'
+  CHECK (role IN ('member', 'admin'));
+
+-- Create function to check whether the current user administers a group
+CREATE OR REPLACE FUNCTION is_conversation_admin(conversation_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM conversation_participants cp
+    JOIN conversations c ON c.id = cp.conversation_id
+    WHERE cp.conversation_id = $1
+    AND cp.user_id = auth.uid()
+    AND cp.role = 'admin'
+    AND c.is_group
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to create a group
+CREATE OR REPLACE FUNCTION create_group_conversation(
+  name text,
+  member_ids uuid[],
+  avatar_url text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  result uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(trim($1), '') = '' THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  INSERT INTO conversations (is_group, name, avatar_url, created_by)
+  VALUES (true, trim($1), $3, auth.uid())
+  RETURNING id INTO result;
+
+  INSERT INTO conversation_participants (conversation_id, user_id, role)
+  VALUES (result, auth.uid(), 'admin');
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT result, member.id
+  FROM unnest($2) AS member(id)
+  WHERE member.id <> auth.uid()
+  ON CONFLICT DO NOTHING;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to rename a group or change its avatar
+CREATE OR REPLACE FUNCTION update_group_conversation(
+  conversation_id uuid,
+  name text,
+  avatar_url text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_conversation_admin($1) THEN
+    RAISE EXCEPTION 'Only group admins can change the group';
+  END IF;
+
+  IF COALESCE(trim($2), '') = '' THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  UPDATE conversations c
+  SET name = trim($2), avatar_url = $3
+  WHERE c.id = $1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to add members to a group
+CREATE OR REPLACE FUNCTION add_conversation_members(
+  conversation_id uuid,
+  member_ids uuid[]
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_conversation_admin($1) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT $1, member.id
+  FROM unnest($2) AS member(id)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to remove a member from a group
+-- Members may remove themselves, which is how they leave a group.
+CREATE OR REPLACE FUNCTION remove_conversation_member(
+  conversation_id uuid,
+  member_id uuid
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM conversations c WHERE c.id = $1 AND c.is_group) THEN
+    RAISE EXCEPTION 'Members can only be removed from groups';
+  END IF;
+
+  IF $2 <> auth.uid() AND NOT is_conversation_admin($1) THEN
+    RAISE EXCEPTION 'Only group admins can remove members';
+  END IF;
+
+  DELETE FROM conversation_participants cp
+  WHERE cp.conversation_id = $1
+  AND cp.user_id = $2;
+
+  -- Keep someone in charge of the group
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants cp
+    WHERE cp.conversation_id = $1
+    AND cp.role = 'admin'
+  ) THEN
+    UPDATE conversation_participants cp
+    SET role = 'admin'
+    WHERE (cp.conversation_id, cp.user_id) = (
+      SELECT p.conversation_id, p.user_id
+      FROM conversation_participants p
+      WHERE p.conversation_id = $1
+      ORDER BY p.joined_at ASC, p.user_id ASC
+      LIMIT 1
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to promote or demote a group member
+CREATE OR REPLACE FUNCTION set_conversation_member_role(
+  conversation_id uuid,
+  member_id uuid,
+  role text
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_conversation_admin($1) THEN
+    RAISE EXCEPTION 'Only group admins can change roles';
+  END IF;
+
+  IF $3 NOT IN ('member', 'admin') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  IF $3 = 'member' AND NOT EXISTS (
+    SELECT 1 FROM conversation_participants cp
+    WHERE cp.conversation_id = $1
+    AND cp.role = 'admin'
+    AND cp.user_id <> $2
+  ) THEN
+    RAISE EXCEPTION 'A group needs at least one admin';
+  END IF;
+
+  UPDATE conversation_participants cp
+  SET role = $3
+  WHERE cp.conversation_id = $1
+  AND cp.user_id = $2;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to get the members of a conversation with profiles
+CREATE OR REPLACE FUNCTION get_conversation_members(conversation_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  role text,
+  joined_at timestamptz
+) AS $$
+BEGIN
+  IF NOT is_conversation_participant($1) THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cp.user_id,
+    p.username,
+    p.avatar_url,
+    cp.role,
+    cp.joined_at
+  FROM conversation_participants cp
+  LEFT JOIN profiles p ON p.id = cp.user_id
+  WHERE cp.conversation_id = $1
+  ORDER BY cp.role = 'admin' DESC, cp.joined_at ASC, cp.user_id ASC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recreate get_conversations with group details
+DROP FUNCTION IF EXISTS get_conversations(timestamptz, uuid, integer, uuid);
+
+CREATE OR REPLACE FUNCTION get_conversations(
+  cursor_last_message_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  conversation_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  is_group boolean,
+  group_name text,
+  group_avatar_url text,
+  role text,
+  member_count bigint,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_sender_id uuid,
+  last_message_sender_username text,
+  last_message_at timestamptz,
+  unread_count integer,
+  other_user_id uuid,
+  username text,
+  avatar_url text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.is_group,
+    c.name,
+    c.avatar_url,
+    cp.role,
+    (SELECT COUNT(*) FROM conversation_participants members WHERE members.conversation_id = c.id),
+    c.last_message_id,
+    m.content,
+    m.sender_id,
+    sp.username,
+    c.last_message_at,
+    cp.unread_count,
+    o.user_id,
+    p.username,
+    p.avatar_url
+  FROM conversation_participants cp
+  JOIN conversations c ON c.id = cp.conversation_id
+  LEFT JOIN messages m ON m.id = c.last_message_id
+  LEFT JOIN profiles sp ON sp.id = m.sender_id
+  -- Direct conversations show the other participant
+  LEFT JOIN conversation_participants o
+    ON NOT c.is_group
+    AND o.conversation_id = c.id
+    AND o.user_id <> cp.user_id
+  LEFT JOIN profiles p ON p.id = o.user_id
+  WHERE cp.user_id = auth.uid()
+  AND ($4 IS NULL OR c.id = $4)
+  -- New groups are listed right away, direct conversations once they have messages
+  AND (c.last_message_id IS NOT NULL OR c.is_group OR c.id = $4)
+  AND ($1 IS NULL OR (c.last_message_at, c.id) < ($1, $2))
+  ORDER BY c.last_message_at DESC, c.id DESC
+  LIMIT $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,38 @@
+/*
+  # Restrict conversation channels to participants
+
+  1. Functions
+    - Add `can_access_conversation_channel` - whether the current user takes
+      part in the conversation of a `conversation-<id>` realtime channel
+
+  2. Security
+    - Conversation channels are private, so realtime checks these policies
+      when a user joins one or sends on it
+    - Only participants can receive and send typing notices of a conversation
+*/
+
+-- Create function to check access to the realtime channel of a conversation
+CREATE OR REPLACE FUNCTION can_access_conversation_channel(topic text)
+RETURNS boolean AS $$
+BEGIN
+  IF $1 !~ '^conversation-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN false;
+  END IF;
+
+  RETURN is_conversation_participant(substring($1 FROM 14)::uuid);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Realtime policies for conversation channels
+CREATE POLICY "Participants can receive conversation broadcasts"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (can_access_conversation_channel(realtime.topic()));
+
+CREATE POLICY "Participants can send conversation broadcasts"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    extension = 'broadcast' AND
+    can_access_conversation_channel(realtime.topic())
+  );
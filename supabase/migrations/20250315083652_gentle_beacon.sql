@@ -0,0 +1,63 @@
+/*
+  # Add read receipts and unread totals
+
+  1. Functions
+    - Recreate `mark_conversation_read` to take the time up to which the user
+      has seen the conversation, so only messages that were on screen count
+      as read
+    - Add `get_unread_message_count` - unread messages across all
+      conversations of the user
+
+  2. Security
+    - Read state is only changed through `mark_conversation_read`, for the
+      current user
+    - Participants already see each other's `last_read_at`, which is what
+      read receipts are based on
+*/
+
+-- Recreate mark_conversation_read with the time read up to
+DROP FUNCTION IF EXISTS mark_conversation_read(uuid);
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(
+  conversation_id uuid,
+  read_until timestamptz DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  read_time timestamptz := LEAST(COALESCE($2, now()), now());
+BEGIN
+  -- Receipts only move forward, and unchanged rows aren't sent to realtime
+  UPDATE conversation_participants cp
+  SET
+    last_read_at = read_time,
+    unread_count = (
+      SELECT COUNT(*)
+      FROM messages m
+      WHERE m.conversation_id = $1
+      AND m.sender_id <> auth.uid()
+      AND m.created_at > read_time
+    )
+  WHERE cp.conversation_id = $1
+  AND cp.user_id = auth.uid()
+  AND (cp.last_read_at IS NULL OR cp.last_read_at < read_time);
+
+  UPDATE messages m
+  SET read = true
+  WHERE m.conversation_id = $1
+  AND m.receiver_id = auth.uid()
+  AND m.created_at <= read_time
+  AND m.read IS NOT TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to count unread messages of the current user
+CREATE OR REPLACE FUNCTION get_unread_message_count()
+RETURNS integer AS $$
+BEGIN
+  RETURN (
+    SELECT COALESCE(SUM(cp.unread_count), 0)::integer
+    FROM conversation_participants cp
+    WHERE cp.user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
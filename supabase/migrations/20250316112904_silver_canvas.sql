@@ -0,0 +1,163 @@
+/*
+  # Add message attachments
+
+  1. Changes to Existing Tables
+    - Add attachments to messages table
+      - `attachment_type` - `image`, `video` or `shared_video`
+      - `attachment_path` - image or video file in the `message-attachments`
+        bucket
+      - `attachment_thumbnail_path` - preview frame of a video attachment
+      - `shared_video_id` - video of the app shared as a card
+    - `content` may be empty when a message has an attachment
+
+  2. Storage
+    - Add private `message-attachments` bucket; files are stored under
+      `<conversation id>/<sender id>/`
+
+  3. Security
+    - Only participants of a conversation can read its attachments
+    - Participants can only upload into their own folder of the conversation
+      and delete their own files
+
+  4. Functions
+    - Recreate `get_conversations` to return the attachment type of the last
+      message
+*/
+
+-- Add attachments to messages table
+ALTER TABLE messages
+ALTER COLUMN content DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS attachment_type text
+  CHECK (attachment_type IN ('image', 'video', 'shared_video')),
+ADD COLUMN IF NOT EXISTS attachment_path text,
+ADD COLUMN IF NOT EXISTS attachment_thumbnail_path text,
+ADD COLUMN IF NOT EXISTS shared_video_id uuid REFERENCES videos ON DELETE SET NULL;
+
+-- Ensure every message has text or an attachment that matches its type
+ALTER TABLE messages
+ADD CONSTRAINT messages_content_or_attachment CHECK (
+  COALESCE(trim(content), '') <> '' OR attachment_type IS NOT NULL
+),
+ADD CONSTRAINT messages_attachment_source CHECK (
+  attachment_type IS NULL
+  OR (attachment_type IN ('image', 'video') AND attachment_path IS NOT NULL)
+  -- Shared videos keep their message when the video is deleted
+  OR attachment_type = 'shared_video'
+);
+
+-- Create storage bucket for attachments
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  52428800,
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/webp', 'image/heic',
+    'video/mp4', 'video/x-m4v', 'video/quicktime', 'video/webm'
+  ]
+);
+
+-- Create function to check whether the current user may open an attachment
+CREATE OR REPLACE FUNCTION can_access_message_attachment(object_name text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM conversation_participants cp
+    WHERE cp.conversation_id::text = (storage.foldername($1))[1]
+    AND cp.user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Storage policies for message-attachments bucket
+CREATE POLICY "Participants can view message attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    can_access_message_attachment(name)
+  );
+
+CREATE POLICY "Participants can upload message attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-attachments' AND
+    can_access_message_attachment(name) AND
+    (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own message attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- Recreate get_conversations with the attachment type of the last message
+DROP FUNCTION IF EXISTS get_conversations(timestamptz, uuid, integer, uuid);
+
+CREATE OR REPLACE FUNCTION get_conversations(
+  cursor_last_message_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  conversation_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  is_group boolean,
+  group_name text,
+  group_avatar_url text,
+  role text,
+  member_count bigint,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_attachment_type text,
+  last_message_sender_id uuid,
+  last_message_sender_username text,
+  last_message_at timestamptz,
+  unread_count integer,
+  other_user_id uuid,
+  username text,
+  avatar_url text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.is_group,
+    c.name,
+    c.avatar_url,
+    cp.role,
+    (SELECT COUNT(*) FROM conversation_participants members WHERE members.conversation_id = c.id),
+    c.last_message_id,
+    m.content,
+    m.attachment_type,
+    m.sender_id,
+    sp.username,
+    c.last_message_at,
+    cp.unread_count,
+    o.user_id,
+    p.username,
+    p.avatar_url
+  FROM conversation_participants cp
+  JOIN conversations c ON c.id = cp.conversation_id
+  LEFT JOIN messages m ON m.id = c.last_message_id
+  LEFT JOIN profiles sp ON sp.id = m.sender_id
+  -- Direct conversations show the other participant
+  LEFT JOIN conversation_participants o
+    ON NOT c.is_group
+    AND o.conversation_id = c.id
+    AND o.user_id <> cp.user_id
+  LEFT JOIN profiles p ON p.id = o.user_id
+  WHERE cp.user_id = auth.uid()
+  AND ($4 IS NULL OR c.id = $4)
+  -- New groups are listed right away, direct conversations once they have messages
+  AND (c.last_message_id IS NOT NULL OR c.is_group OR c.id = $4)
+  AND ($1 IS NULL OR (c.last_message_at, c.id) < ($1, $2))
+  ORDER BY c.last_message_at DESC, c.id DESC
+  LIMIT $3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,155 @@
+/*
+  # Page the For You feed through a ranking snapshot
+
+  1. New Tables
+    - `for_you_rankings`
+      - `user_id` (uuid, references auth.users)
+      - `feed_time` (timestamptz) - the time the feed was opened at
+      - `position` (integer) - place of the video in the ranking, from 1
+      - `video_id` (uuid, references videos)
+      - `score` (float) - score of the video when the ranking was taken
+
+  2. Functions
+    - Recreate `get_for_you_feed` to rank videos once per `feed_time` and
+      page by position through the stored ranking. Scores used to be
+      recomputed for every video on each page, and as counts and follows
+      changed between pages videos moved across the `(score, id)` cursor and
+      were skipped or shown twice.
+    - A ranking holds the top 1000 videos, which is where the feed ends
+    - Only the latest ranking of a user is kept. When a page is requested for
+      a ranking that is gone, it is taken again for the same `feed_time`.
+
+  3. Security
+    - Enable RLS on `for_you_rankings` without policies; rankings are only
+      read and written by `get_for_you_feed`
+*/
+
+-- Create for_you_rankings table
+CREATE TABLE IF NOT EXISTS for_you_rankings (
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE,
+  feed_time timestamptz NOT NULL,
+  position integer NOT NULL,
+  video_id uuid REFERENCES videos ON DELETE CASCADE,
+  score float NOT NULL,
+  PRIMARY KEY (user_id, feed_time, position)
+);
+
+-- Enable RLS
+ALTER TABLE for_you_rankings ENABLE ROW LEVEL SECURITY;
+
+-- Recreate For You feed with position cursor
+DROP FUNCTION IF EXISTS get_for_you_feed(integer, timestamptz, float, uuid);
+
+CREATE OR REPLACE FUNCTION get_for_you_feed(
+  page_size integer DEFAULT 10,
+  feed_time timestamptz DEFAULT now(),
+  cursor_position integer DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  video_url text,
+  hls_url text,
+  thumbnail_url text,
+  created_at timestamptz,
+  user_id uuid,
+  address text,
+  latitude float,
+  longitude float,
+  like_count integer,
+  bookmark_count integer,
+  comment_count integer,
+  view_count integer,
+  visibility text,
+  publish_at timestamptz,
+  username text,
+  avatar_url text,
+  tags text[],
+  score float,
+  rank_position integer
+) AS $$
+BEGIN
+  IF $3 IS NULL OR NOT EXISTS (
+    SELECT 1 FROM for_you_rankings fr
+    WHERE fr.user_id = auth.uid()
+    AND fr.feed_time = $2
+  ) THEN
+    DELETE FROM for_you_rankings fr
+    WHERE fr.user_id = auth.uid();
+
+    INSERT INTO for_you_rankings (user_id, feed_time, position, video_id, score)
+    SELECT
+      auth.uid(),
+      $2,
+      row_number() OVER (ORDER BY s.rank_score DESC, s.id DESC),
+      s.id,
+      s.rank_score
+    FROM (
+      SELECT
+        v.id,
+        (
+          coalesce(v.like_count, 0)
+          + 2 * coalesce(v.bookmark_count, 0)
+          + 3 * coalesce(v.comment_count, 0)
+          + 1
+        )::float
+        * CASE WHEN f.id IS NOT NULL THEN 2.0 ELSE 1.0 END
+        / power(
+            -- Scheduled videos rank from the time they were published
+            greatest(extract(epoch FROM ($2 - greatest(v.created_at, coalesce(v.publish_at, v.created_at)))) / 3600, 0) + 2,
+            1.5
+          ) AS rank_score
+      FROM videos v
+      LEFT JOIN follows f
+        ON f.following_id = v.user_id
+        AND f.follower_id = auth.uid()
+      WHERE v.created_at <= $2
+      AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+      ORDER BY rank_score DESC, v.id DESC
+      LIMIT 1000
+    ) s;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title,
+    v.description,
+    v.video_url,
+    v.hls_url,
+    v.thumbnail_url,
+    v.created_at,
+    v.user_id,
+    v.address,
+    v.latitude,
+    v.longitude,
+    v.like_count,
+    v.bookmark_count,
+    v.comment_count,
+    v.view_count,
+    v.visibility,
+    v.publish_at,
+    p.username,
+    p.avatar_url,
+    ARRAY(
+      SELECT t.name
+      FROM video_tags vt
+      JOIN tags t ON t.id = vt.tag_id
+      WHERE vt.video_id = v.id
+      ORDER BY t.name
+    ),
+    fr.score,
+    fr.position
+  FROM for_you_rankings fr
+  JOIN videos v ON v.id = fr.video_id
+  LEFT JOIN profiles p ON v.user_id = p.id
+  WHERE fr.user_id = auth.uid()
+  AND fr.feed_time = $2
+  AND fr.position > coalesce($3, 0)
+  -- Videos hidden since the ranking was taken are left out
+  AND video_is_listed(v.user_id, v.visibility, v.publish_at)
+  ORDER BY fr.position
+  LIMIT $1;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER;
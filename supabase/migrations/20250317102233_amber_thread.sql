@@ -0,0 +1,81 @@
+/*
+  # Page conversation messages with their senders
+
+  1. Functions
+    - Add `get_conversation_messages` returning a page of a conversation's
+      messages, newest first, paginated with a `(created_at, id)` cursor
+      - Joins the username and avatar of the sender, so clients don't look up
+        a profile per message
+      - Joins the shared video of a message when the user can see it
+      - With `p_message_id`, returns only that message, e.g. to complete one
+        that arrived through realtime
+
+  2. Security
+    - Only returns messages of conversations the current user takes part in
+*/
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_id
+ON messages(conversation_id, created_at DESC, id DESC);
+
+-- Create function to get a page of messages
+CREATE OR REPLACE FUNCTION get_conversation_messages(
+  p_conversation_id uuid,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 30,
+  p_message_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  attachment_type text,
+  attachment_path text,
+  attachment_thumbnail_path text,
+  shared_video_id uuid,
+  username text,
+  avatar_url text,
+  shared_video_title text,
+  shared_video_thumbnail_url text,
+  shared_video_user_id uuid
+) AS $$
+BEGIN
+  IF NOT is_conversation_participant($1) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.attachment_type,
+    m.attachment_path,
+    m.attachment_thumbnail_path,
+    m.shared_video_id,
+    p.username,
+    p.avatar_url,
+    v.title,
+    v.thumbnail_url,
+    v.user_id
+  FROM messages m
+  LEFT JOIN profiles p ON p.id = m.sender_id
+  LEFT JOIN videos v
+    ON v.id = m.shared_video_id
+    AND video_is_visible(v.user_id, v.visibility, v.publish_at)
+  WHERE m.conversation_id = $1
+  AND ($5 IS NULL OR m.id = $5)
+  AND ($2 IS NULL OR (m.created_at, m.id) < ($2, $3))
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT $4;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;